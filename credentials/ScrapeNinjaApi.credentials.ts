@@ -1,11 +1,14 @@
 import {
+	ICredentialDataDecryptedObject,
 	ICredentialType,
+	IHttpRequestOptions,
 	INodeProperties,
 } from 'n8n-workflow';
 
 export class ScrapeNinjaApi implements ICredentialType {
 	name = 'scrapeNinjaApi';
 	displayName = 'ScrapeNinja API';
+	documentationUrl = 'https://scrapeninja.net/docs/n8n/';
 	properties: INodeProperties[] = [
 		{
 			displayName: 'API Marketplace',
@@ -20,9 +23,40 @@ export class ScrapeNinjaApi implements ICredentialType {
 					name: 'APIRoad',
 					value: 'apiroad',
 				},
+				{
+					name: 'Direct (Custom Base URL)',
+					value: 'direct',
+				},
 			],
 			default: 'rapidapi',
-			description: 'Choose your API marketplace',
+			description: 'Choose your API marketplace, or Direct to call a ScrapeNinja compatible API on your own base URL (e.g. an enterprise gateway or a local mock)',
+		},
+		{
+			displayName: 'Base URL',
+			name: 'baseUrl',
+			type: 'string',
+			default: '',
+			placeholder: 'https://scrapeninja.example.com',
+			required: true,
+			description: 'Base URL of the API, the /scrape and /scrape-js endpoints are appended to it',
+			displayOptions: {
+				show: {
+					marketplace: ['direct'],
+				},
+			},
+		},
+		{
+			displayName: 'Auth Header Name',
+			name: 'authHeaderName',
+			type: 'string',
+			default: 'X-Api-Key',
+			required: true,
+			description: 'Name of the request header carrying the API key',
+			displayOptions: {
+				show: {
+					marketplace: ['direct'],
+				},
+			},
 		},
 		{
 			displayName: 'API Key',
@@ -33,7 +67,29 @@ export class ScrapeNinjaApi implements ICredentialType {
 			},
 			default: '',
 			required: true,
-			description: 'The API key (X-RapidAPI-Key for RapidAPI or X-Apiroad-Key for APIRoad)',
+			description: 'The API key (X-RapidAPI-Key for RapidAPI, X-Apiroad-Key for APIRoad, or the auth header above for Direct)',
 		},
 	];
+
+	async authenticate(
+		credentials: ICredentialDataDecryptedObject,
+		requestOptions: IHttpRequestOptions,
+	): Promise<IHttpRequestOptions> {
+		const apiKey = String(credentials.apiKey ?? '');
+		const headers: Record<string, string> = {};
+
+		if (credentials.marketplace === 'direct') {
+			headers[String(credentials.authHeaderName || 'X-Api-Key')] = apiKey;
+		} else if (credentials.marketplace === 'apiroad') {
+			headers['X-Apiroad-Key'] = apiKey;
+		} else {
+			headers['X-RapidAPI-Key'] = apiKey;
+			headers['X-RapidAPI-Host'] = 'scrapeninja.p.rapidapi.com';
+		}
+
+		requestOptions.headers = { ...requestOptions.headers, ...headers };
+		return requestOptions;
+	}
+
+	// No test request: ScrapeNinja has no endpoint which checks the key without using up a billable request
 }
@@ -1,140 +1,180 @@
 import type { IExecuteFunctions } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
-import type { IDatabase, ITask } from 'pg-promise';
 import * as cheerio from 'cheerio';
-import { minimatch } from 'minimatch';
-import { IScrapeSettings } from './types';
+import { createHash } from 'crypto';
+import { ICrawlerOptions, IScrapeSettings } from './types';
+import { IScrapeResult, scrapeWithScrapeNinja } from './ScrapeNinjaClient';
 import { CrawlerQueue } from './CrawlerQueue';
+import { IRobotsTxt, isAllowedByRobots, parseRobotsTxt } from './RobotsTxt';
+import { runCustomExtractor } from './ExtractCustom';
+import { extractPrimaryContent } from './ExtractContent';
+import { createUrlNormalizer } from './UrlNormalization';
+import { collectLinks, DEFAULT_LINK_SOURCES, getLinkBaseUrl } from './LinkExtraction';
+import { createUrlFilter, getContentTypeRejection, IUrlRejection, UrlRejectionReason } from './UrlFilter';
+import { checkLink, DEFAULT_MAX_REDIRECTS } from './LinkChecker';
+import type { CrawlerChangeStatus, CrawlerLogLevel, CrawlerRunStatus, ICrawlerStorage, INewCrawlerLink, IQueueCounts } from './CrawlerStorage';
 
-interface IScrapeResult {
-	info: {
-		statusCode: number;
-		finalUrl: string;
-		headers: string[];
-	};
-	body: string;
+// Update logToCrawler function to handle all log levels
+export async function logToCrawler(
+	this: IExecuteFunctions,
+	storage: ICrawlerStorage,
+	runId: number,
+	level: CrawlerLogLevel,
+	message: string,
+	metadata?: any,
+) {
+	// Log to n8n logger
+	this.logger[level](message, { ...metadata, runId });
+
+	// Always log to the crawler storage regardless of level, a failed write doesn't fail the page or the run
+	try {
+		await storage.log(runId, level, message, metadata);
+	} catch (error) {
+		this.logger.warn('Failed to write crawler log', { runId, message, error: error.message });
+	}
 }
 
-interface ICrawlerQueue {
-	id: number;
-	run_id: number;
-	url: string;
-	status: 'pending' | 'processing' | 'completed' | 'failed';
-	parent_url: string | null;
-	depth: number;
-	created_at: Date;
-	updated_at: Date;
-	error?: string;
-	response_html?: string;
-	response_status_code?: number;
-	response_final_url?: string;
-	page_title?: string;
+/**
+ * Cancels the pending and processing items of a run and ends the run with the given status.
+ * A run which already ended keeps its status, e.g. a run stopped by the failure policy stays failed.
+ */
+export async function cancelRemainingItems(
+	storage: ICrawlerStorage,
+	runId: number,
+	reason: string,
+	runStatus: Extract<CrawlerRunStatus, 'canceled' | 'failed'> = 'canceled',
+): Promise<number> {
+	// Update all pending and processing items to canceled
+	const canceled = await storage.updateItems(runId, ['pending', 'processing'], { status: 'canceled', error: reason });
+
+	await storage.updateRun(runId, { status: runStatus }, ['pending', 'running', 'paused']);
+
+	return canceled;
 }
 
-function shouldProcessUrl(url: string, includePatterns: string[], excludePatterns: string[]): boolean {
-	// If no include patterns are specified, include all URLs by default
-	let shouldInclude = includePatterns.length === 0;
-
-	// Convert URL to a format that works better with minimatch
-	const urlForMatching = url.replace(/^https?:\/\//, '');
-
-	// Check include patterns
-	for (const pattern of includePatterns) {
-		// Remove protocol from pattern if present
-		const cleanPattern = pattern.replace(/^https?:\/\//, '');
-		
-		if (minimatch(urlForMatching, cleanPattern)) {
-			shouldInclude = true;
-			break;
+// A failure rate of a handful of pages says little, a single failed first page would already be 100%
+const MIN_PAGES_FOR_FAILURE_RATE = 10;
+
+/**
+ * Checks the failure budget of a run against its failure policy.
+ * Only pages processed since initialStats count, so a resumed run starts with a fresh budget.
+ * Returns why the crawler should stop, or null when it can go on.
+ */
+function getFailureStopReason(
+	options: ICrawlerOptions,
+	stats: IQueueCounts,
+	initialStats: IQueueCounts,
+	consecutiveFailures: number,
+): string | null {
+	const { failurePolicy = 'count', maxFailures = 10, maxFailurePercentage = 20 } = options;
+	const completed = stats.completed - initialStats.completed;
+	const failed = stats.failed - initialStats.failed;
+
+	switch (failurePolicy) {
+		case 'never':
+			return null;
+		case 'consecutive':
+			return consecutiveFailures > maxFailures
+				? `Too many consecutive failed requests (${consecutiveFailures})`
+				: null;
+		case 'percentage': {
+			const processed = completed + failed;
+			const failureRate = processed > 0 ? (failed / processed) * 100 : 0;
+			return processed >= MIN_PAGES_FOR_FAILURE_RATE && failureRate > maxFailurePercentage
+				? `Too high failure rate (${failureRate.toFixed(1)}% of ${processed} processed pages)`
+				: null;
 		}
+		default:
+			return failed > maxFailures
+				? `Too many failed requests (${failed})`
+				: null;
 	}
+}
 
-	// Check exclude patterns - these take precedence over include patterns
-	for (const pattern of excludePatterns) {
-		const cleanPattern = pattern.replace(/^https?:\/\//, '');
-		
-		if (minimatch(urlForMatching, cleanPattern)) {
-			return false;
-		}
-	}
+/**
+ * Hashes the visible text of a page. Markup, scripts and whitespace changes (nonces, tracking
+ * snippets, reformatting) don't change the hash, so it can be compared between runs.
+ */
+function computeContentHash($: ReturnType<typeof cheerio.load>): string {
+	const body = $('body').clone();
+	body.find('script, style, noscript, template').remove();
+	const text = body.text().replace(/\s+/g, ' ').trim();
 
-	return shouldInclude;
+	return createHash('sha256').update(text).digest('hex');
 }
 
-// Update logToCrawler function to handle all log levels
-async function logToCrawler(
+// Fetch a single URL through the ScrapeNinja API using the scrape settings of a crawler run
+export async function fetchWithScrapeNinja(
 	this: IExecuteFunctions,
-	db: IDatabase<any>,
+	storage: ICrawlerStorage,
 	runId: number,
-	level: 'debug' | 'info' | 'warn' | 'error',
-	message: string,
-	metadata?: any,
-) {
-	// Log to n8n logger
-	this.logger[level](message, { ...metadata, runId });
+	url: string,
+	settings: IScrapeSettings,
+): Promise<IScrapeResult> {
+	await logToCrawler.call(this, storage, runId, 'debug', `Sending request to ScrapeNinja /${settings.engine}`, {
+		runId,
+		url,
+		engine: settings.engine,
+	});
 
-	// Always log to database regardless of level
-	await db.none(
-		`INSERT INTO crawler_logs (run_id, level, message, metadata) 
-		VALUES ($1, $2, $3, $4)`,
-		[runId, level, message, metadata ? JSON.stringify(metadata) : null],
-	);
+	return await scrapeWithScrapeNinja.call(this, url, settings);
 }
 
-async function cancelRemainingItems(
-	db: IDatabase<any>,
+// External links of a page checked at the same time in broken link checker mode
+const LINK_CHECK_CONCURRENCY = 5;
+
+// Upper bound for robots.txt Crawl-delay, so a huge value can't stall the whole run
+const MAX_CRAWL_DELAY_SECONDS = 30;
+
+export async function fetchRobotsTxt(
+	this: IExecuteFunctions,
+	storage: ICrawlerStorage,
 	runId: number,
-	reason: string,
-): Promise<void> {
-	await db.tx(async (t: ITask<any>) => {
-		// Update all pending and processing items to canceled
-		await t.none(
-			`UPDATE crawler_queue 
-			SET status = 'canceled', 
-				error = $1,
-				updated_at = CURRENT_TIMESTAMP 
-			WHERE run_id = $2 
-			AND status IN ('pending', 'processing')`,
-			[reason, runId],
-		);
-
-		// Update run status
-		await t.none(
-			`UPDATE crawler_runs 
-			SET status = 'canceled', 
-				updated_at = CURRENT_TIMESTAMP 
-			WHERE id = $1`,
-			[runId],
-		);
-	});
-}
+	origin: string,
+	settings: IScrapeSettings,
+	userAgent: string,
+): Promise<IRobotsTxt> {
+	const robotsUrl = `${origin}/robots.txt`;
 
-function normalizeUrl(url: string): string {
 	try {
-		const parsed = new URL(url);
-		// Remove hash fragment
-		parsed.hash = '';
-		// Remove trailing slash if it's the only path component
-		if (parsed.pathname === '/') {
-			parsed.pathname = '';
-		}
-		// Remove default ports
-		if ((parsed.protocol === 'http:' && parsed.port === '80') || 
-			(parsed.protocol === 'https:' && parsed.port === '443')) {
-			parsed.port = '';
+		// robots.txt is plain text: always use the fast engine and don't retry on "unexpected" statuses like 404
+		const result = await fetchWithScrapeNinja.call(this, storage, runId, robotsUrl, {
+			...settings,
+			engine: 'scrape',
+			textNotExpected: [],
+			statusNotExpected: [],
+			followRedirects: true,
+		});
+
+		if (result.info.statusCode >= 200 && result.info.statusCode < 300) {
+			const robots = parseRobotsTxt(result.body || '', userAgent);
+			await logToCrawler.call(this, storage, runId, 'info', `Loaded robots.txt for "${origin}"`, {
+				url: robotsUrl,
+				user_agent: userAgent,
+				rules: robots.rules.length,
+				crawl_delay: robots.crawlDelay,
+				sitemaps: robots.sitemaps,
+			});
+			return robots;
 		}
-		// Always use lowercase hostname
-		parsed.hostname = parsed.hostname.toLowerCase();
-		return parsed.toString();
-	} catch {
-		// If URL parsing fails, return original
-		return url;
+
+		await logToCrawler.call(this, storage, runId, 'info', `No usable robots.txt for "${origin}" (status ${result.info.statusCode}), all URLs are allowed`, {
+			url: robotsUrl,
+			status_code: result.info.statusCode,
+		});
+	} catch (error) {
+		await logToCrawler.call(this, storage, runId, 'warn', `Failed to fetch robots.txt for "${origin}", all URLs are allowed`, {
+			url: robotsUrl,
+			error: error.message,
+		});
 	}
+
+	return { rules: [], sitemaps: [] };
 }
 
 export async function processCrawlerQueue(
 	this: IExecuteFunctions,
-	db: IDatabase<any>,
+	storage: ICrawlerStorage,
 	runId: number,
 	maxDepth: number,
 	maxPages: number,
@@ -142,289 +182,400 @@ export async function processCrawlerQueue(
 	excludePatterns: string[] = [],
 	crawlExternal: boolean = false,
 	settings: IScrapeSettings,
+	options: ICrawlerOptions = {},
 	concurrency: number = 1,
 ): Promise<void> {
-	const queue = new CrawlerQueue(concurrency);
-	let processedPages = 0;
-	let isProcessing = true;
+	const queue = new CrawlerQueue(concurrency, {
+		minDelayMs: options.minDelayMs,
+		maxRequestsPerMinute: options.maxRequestsPerMinute,
+		jitterMs: options.jitterMs,
+	});
 	let linksQueued = 0;
+	// Permanently failed pages since the last completed page, across all workers
+	let consecutiveFailures = 0;
+	// Pages failed before a resume don't count towards the failure budget
+	const initialStats = await storage.countItems(runId);
+	const normalizeUrl = createUrlNormalizer(options);
+	const filterUrl = createUrlFilter(includePatterns, excludePatterns, options);
+
+	// robots.txt is fetched once per origin and shared by all workers
+	const robotsCache = new Map<string, Promise<IRobotsTxt>>();
+	const robotsLoggedUrls = new Set<string>();
+	const hostNextRequestAt = new Map<string, number>();
+
+	const getRobotsTxt = (url: string): Promise<IRobotsTxt> => {
+		const origin = new URL(url).origin;
+		let robots = robotsCache.get(origin);
+		if (!robots) {
+			robots = fetchRobotsTxt.call(this, storage, runId, origin, settings, options.robotsUserAgent || '*');
+			robotsCache.set(origin, robots);
+		}
+		return robots;
+	};
+
+	const checkRobotsTxt = async (url: string, parentUrl: string | null): Promise<boolean> => {
+		if (!options.respectRobotsTxt) return true;
+
+		const verdict = isAllowedByRobots(await getRobotsTxt(url), url);
+		if (!verdict.allowed && !robotsLoggedUrls.has(url)) {
+			robotsLoggedUrls.add(url);
+			await logToCrawler.call(this, storage, runId, 'info', `Skipping "${url}": disallowed by robots.txt`, {
+				url,
+				parent_url: parentUrl,
+				reason: 'robots.txt',
+				rule: verdict.rule,
+				user_agent: options.robotsUserAgent || '*',
+			});
+		}
+		return verdict.allowed;
+	};
+
+	// Spread requests to the same host according to robots.txt Crawl-delay
+	const waitForCrawlDelay = async (url: string): Promise<void> => {
+		if (!options.respectRobotsTxt) return;
+
+		const { crawlDelay } = await getRobotsTxt(url);
+		if (!crawlDelay) return;
+
+		const host = new URL(url).host;
+		const delayMs = Math.min(crawlDelay, MAX_CRAWL_DELAY_SECONDS) * 1000;
+		const now = Date.now();
+		const requestAt = Math.max(now, hostNextRequestAt.get(host) ?? 0);
+		hostNextRequestAt.set(host, requestAt + delayMs);
+
+		if (requestAt > now) {
+			await new Promise((resolve) => setTimeout(resolve, requestAt - now));
+		}
+	};
+
+	// Every external URL is checked once per run, even when several workers find it at the same time
+	const linkChecks = new Map<string, Promise<void>>();
+	const linkCheckSettings: IScrapeSettings = {
+		...settings,
+		// A check only needs the status code: use the fast engine, don't retry and follow redirects hop by hop
+		engine: 'scrape',
+		retryNum: 0,
+		textNotExpected: [],
+		statusNotExpected: [],
+		followRedirects: false,
+		timeout: options.linkCheckTimeout || settings.timeout,
+	};
+
+	const checkExternalLink = (url: string, pageUrl: string): Promise<void> => {
+		let check = linkChecks.get(url);
+		if (!check) {
+			check = (async () => {
+				// Checked before the run was paused
+				if (await storage.getLinkCheck(runId, url)) return;
+
+				const result = await checkLink(
+					(checkUrl) => fetchWithScrapeNinja.call(this, storage, runId, checkUrl, linkCheckSettings),
+					url,
+					options.maxRedirects ?? DEFAULT_MAX_REDIRECTS,
+				);
+				await storage.saveLinkCheck(runId, result);
+
+				if (result.problem) {
+					await logToCrawler.call(this, storage, runId, 'info', `Broken external link "${url}" on "${pageUrl}": ${result.problem}`, {
+						url,
+						page_url: pageUrl,
+						problem: result.problem,
+						status_code: result.status_code,
+						redirect_chain: result.redirect_chain,
+						error: result.error,
+					});
+				}
+			})();
+			linkChecks.set(url, check);
+		}
+		return check;
+	};
+
+	// Pages completed before this call (e.g. when resuming a run) count towards maxPages
+	let processedPages = (await storage.countItems(runId)).completed;
+
+	// Runs linked to a previous run get change detection against its pages
+	const previousRunId = (await storage.getRun(runId))?.previous_run_id ?? null;
 
 	try {
 		// Start concurrent processors
 		const processors = Array.from({ length: concurrency }).map(async () => {
-			while (isProcessing && processedPages < maxPages) {
-				// Get next batch of URLs to process
-				const queueItem = await db.tx(async (t: ITask<any>) => {
-					const queueResult = await t.oneOrNone<ICrawlerQueue>(
-						`UPDATE crawler_queue 
-						SET status = 'processing', updated_at = CURRENT_TIMESTAMP
-						WHERE id = (
-							SELECT id FROM crawler_queue 
-							WHERE run_id = $1 AND status = 'pending'
-							ORDER BY depth ASC, created_at ASC 
-							FOR UPDATE SKIP LOCKED
-							LIMIT 1
-						)
-						RETURNING *`,
-						[runId],
-					);
-
-					if (!queueResult) {
-						return null;
-					}
+			while (processedPages < maxPages) {
+				// Stop picking up new URLs once the run was paused or canceled from another execution
+				const currentRun = await storage.getRun(runId);
 
-					logToCrawler.call(this, db, runId, 'debug', `Selected URL "${queueResult.url}" for processing`, { 
-						runId,
-						url: queueResult.url,
-						depth: queueResult.depth,
-						queueId: queueResult.id,
-					});
-					return queueResult;
-				});
+				if (!currentRun || currentRun.status !== 'running') {
+					await logToCrawler.call(this, storage, runId, 'info', `Crawler run "${runId}" is no longer active (status: ${currentRun?.status}), stopping worker`, { runId });
+					break;
+				}
+
+				// Get next batch of URLs to process
+				const queueItem = await storage.claimNextItem(runId);
 
 				if (!queueItem) {
-					const stats = await db.one<{
-						total: string;
-						pending: string;
-						completed: string;
-						failed: string;
-					}>(
-						`SELECT 
-							COUNT(*) as total,
-							COUNT(*) FILTER (WHERE status = 'pending') as pending,
-							COUNT(*) FILTER (WHERE status = 'completed') as completed,
-							COUNT(*) FILTER (WHERE status = 'failed') as failed
-						FROM crawler_queue 
-						WHERE run_id = $1`,
-						[runId],
-					);
-				
-					// If there are no pending items, stop processing.
-					if (parseInt(stats.pending) === 0) {
-						isProcessing = false;
-						// Optionally, mark the run as failed if no pages were processed successfully.
-						if (parseInt(stats.completed) === 0) {
-							logToCrawler.call(
-								this,
-								db,
-								runId,
-								'warn',
-								'No URLs processed successfully, stopping crawler',
-								{
-									runId,
-									queue_stats: {
-										total: parseInt(stats.total),
-										pending: parseInt(stats.pending),
-										completed: parseInt(stats.completed),
-										failed: parseInt(stats.failed),
-									},
-								},
-							);
-							await db.none(
-								'UPDATE crawler_runs SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-								['failed', runId],
-							);
-						}
-						break; // exit the worker loop
+					const stats = await storage.countItems(runId);
+
+					// Other workers may still be fetching pages and queueing their links, only an empty queue ends the run
+					if (stats.pending === 0 && stats.processing === 0) {
+						break;
 					}
-				
+
 					// No items available now; wait before trying again.
 					await new Promise((resolve) => setTimeout(resolve, 1000));
 					continue;
 				}
 
+				await logToCrawler.call(this, storage, runId, 'debug', `Selected URL "${queueItem.url}" for processing`, { 
+					runId,
+					url: queueItem.url,
+					depth: queueItem.depth,
+					queueId: queueItem.id,
+				});
+
 				// Process the URL
 				await queue.add(async () => {
 					let requestStartTime = Date.now();
 					try {
 						// Check if run is still active
-						const runStatus = await db.oneOrNone<{ status: string }>(
-							'SELECT status FROM crawler_runs WHERE id = $1',
-							[runId],
-						);
+						const runStatus = await storage.getRun(runId);
 
 						if (!runStatus || runStatus.status !== 'running') {
-							logToCrawler.call(this, db, runId, 'info', `Crawler run "${runId}" is no longer active (status: ${runStatus?.status})`, { runId });
+							await logToCrawler.call(this, storage, runId, 'info', `Crawler run "${runId}" is no longer active (status: ${runStatus?.status})`, { runId });
+							// Give the claimed URL back to the queue when paused, so that resume picks it up
+							await storage.updateItem(
+								queueItem.id,
+								{ status: runStatus?.status === 'paused' ? 'pending' : 'canceled' },
+								['processing'],
+							);
 							return;
 						}
 
-						logToCrawler.call(this, db, runId, 'debug', `Fetching page "${queueItem.url}" using ScrapeNinja`, { runId, url: queueItem.url });
-						
-						// Reset timer just before the actual request
-						requestStartTime = Date.now();
-
-						// Use ScrapeNinja to fetch the page
-						const credentials = await this.getCredentials('scrapeNinjaApi');
-						
-						// Decide endpoint based on marketplace and engine
-						const marketplace = (credentials as any).marketplace || 'rapidapi';
-						const endpoint = settings.engine === 'scrape'
-							? marketplace === 'rapidapi' 
-								? 'https://scrapeninja.p.rapidapi.com/scrape'
-								: 'https://scrapeninja.apiroad.net/scrape'
-							: marketplace === 'rapidapi'
-								? 'https://scrapeninja.p.rapidapi.com/scrape-js'
-								: 'https://scrapeninja.apiroad.net/scrape-js';
-
-						// Set authentication headers based on marketplace
-						const headers: Record<string, string> = {
-							'Content-Type': 'application/json',
-						};
-
-						if (marketplace === 'rapidapi') {
-							headers['X-RapidAPI-Key'] = credentials.apiKey as string;
-							headers['X-RapidAPI-Host'] = 'scrapeninja.p.rapidapi.com';
-						} else {
-							headers['X-Apiroad-Key'] = credentials.apiKey as string;
+						// Seeds and resumed URLs did not pass the link discovery check
+						if (!(await checkRobotsTxt(queueItem.url, queueItem.parent_url))) {
+							await storage.updateItem(queueItem.id, { status: 'skipped', error: 'Disallowed by robots.txt' });
+							return;
 						}
 
-						// Build request body based on engine
-						const body: Record<string, any> = {
-							url: queueItem.url,
-						};
-
-						// Only add non-empty arrays and defined values
-						if (settings.headers?.length > 0) {
-							body.headers = settings.headers;
-						}
+						await waitForCrawlDelay(queueItem.url);
 
-						if (settings.retryNum > 0) {
-							body.retryNum = settings.retryNum;
-						}
+						await logToCrawler.call(this, storage, runId, 'debug', `Fetching page "${queueItem.url}" using ScrapeNinja`, { runId, url: queueItem.url });
+						
+						// Reset timer just before the actual request
+						requestStartTime = Date.now();
 
-						if (settings.textNotExpected?.length > 0) {
-							body.textNotExpected = settings.textNotExpected;
-						}
+						const scrapeResult = await fetchWithScrapeNinja.call(this, storage, runId, queueItem.url, settings);
 
-						if (settings.statusNotExpected?.length > 0) {
-							body.statusNotExpected = settings.statusNotExpected;
-						}
+						// Calculate request latency
+						const requestLatencyMs = Date.now() - requestStartTime;
+						const responseBytes = Buffer.byteLength(scrapeResult.body || '', 'utf8');
+
+						// Responses of other content types (e.g. PDFs behind extension-less URLs) are not stored
+						const contentTypeRejection = getContentTypeRejection(scrapeResult.info.headers, options.allowedContentTypes);
+						if (contentTypeRejection) {
+							await storage.updateItem(queueItem.id, {
+								status: 'skipped',
+								error: contentTypeRejection.detail,
+								attempts: queueItem.attempts + 1,
+								response_status_code: scrapeResult.info.statusCode,
+								response_final_url: scrapeResult.info.finalUrl,
+								latency_ms: requestLatencyMs,
+								response_bytes: responseBytes,
+							});
 
-						// Add geo only if not using custom proxy
-						if (settings.geo !== '_custom') {
-							body.geo = settings.geo;
+							await logToCrawler.call(this, storage, runId, 'info', `Skipping "${queueItem.url}": ${contentTypeRejection.detail}`, {
+								runId,
+								url: queueItem.url,
+								reason: contentTypeRejection.reason,
+								latency_ms: requestLatencyMs,
+							});
+							return;
 						}
 
-						// Add proxy if using custom proxy and it's not empty
-						if (settings.geo === '_custom' && settings.proxy) {
-							body.proxy = settings.proxy;
-						}
+						// Extract page title and links from HTML
+						const $ = cheerio.load(scrapeResult.body);
 
-						// Add engine-specific options
-						if (settings.engine === 'scrape') {
-							if (settings.followRedirects !== undefined) {
-								body.followRedirects = settings.followRedirects ? 1 : 0;
-							}
-							if (settings.timeout) {
-								body.timeout = settings.timeout;
-							}
-						} else {
-							// scrape-js specific options
-							if (settings.timeoutJs) {
-								body.timeoutJs = settings.timeoutJs;
-							}
-							if (settings.waitForSelector) {
-								body.waitForSelector = settings.waitForSelector;
-							}
-							if (settings.blockImages) {
-								body.blockImages = settings.blockImages;
-							}
-							if (settings.blockMedia) {
-								body.blockMedia = settings.blockMedia;
+						// A page declaring another crawlable URL as canonical is a duplicate, the canonical URL is crawled instead
+						if (options.dedupeByCanonical) {
+							const canonicalHref = $('link[rel~="canonical"][href]').first().attr('href');
+							let canonicalUrl: string | null = null;
+							try {
+								canonicalUrl = canonicalHref
+									? normalizeUrl(new URL(canonicalHref, scrapeResult.info.finalUrl || queueItem.url).toString())
+									: null;
+							} catch {
+								// Invalid canonical URLs are ignored
 							}
-							if (settings.postWaitTime) {
-								body.postWaitTime = settings.postWaitTime;
+
+							if (
+								canonicalUrl &&
+								canonicalUrl !== queueItem.url &&
+								!filterUrl(canonicalUrl) &&
+								(crawlExternal || new URL(canonicalUrl).hostname === new URL(queueItem.url).hostname) &&
+								(await checkRobotsTxt(canonicalUrl, queueItem.url))
+							) {
+								const queued = await storage.enqueue(runId, [{
+									url: canonicalUrl,
+									parent_url: queueItem.url,
+									depth: queueItem.depth,
+								}]);
+								// A canonical URL which was canceled, skipped or failed doesn't replace this page, otherwise
+								// pages pointing at each other as canonical would both be skipped
+								const canonicalItem = queued > 0 ? null : await storage.getItemByUrl(runId, canonicalUrl);
+
+								if (queued > 0 || (canonicalItem && !['canceled', 'skipped', 'failed'].includes(canonicalItem.status))) {
+									await storage.updateItem(queueItem.id, {
+										status: 'skipped',
+										error: `Duplicate of canonical URL "${canonicalUrl}"`,
+										attempts: queueItem.attempts + 1,
+										response_status_code: scrapeResult.info.statusCode,
+										response_final_url: scrapeResult.info.finalUrl,
+										latency_ms: requestLatencyMs,
+										response_bytes: responseBytes,
+									});
+
+									await logToCrawler.call(this, storage, runId, 'info', `Skipping "${queueItem.url}": duplicate of canonical URL "${canonicalUrl}"`, {
+										runId,
+										url: queueItem.url,
+										canonical_url: canonicalUrl,
+										canonical_queued: queued > 0,
+										latency_ms: requestLatencyMs,
+									});
+									return;
+								}
 							}
 						}
 
-						logToCrawler.call(this, db, runId, 'debug', `Sending request to ${endpoint}`, { 
-							runId,
-							url: queueItem.url,
-							marketplace,
-							engine: settings.engine,
-						});
-
-						const scrapeResult = await this.helpers.httpRequest({
-							method: 'POST',
-							url: endpoint,
-							headers,
-							body,
-							json: true,
-						}) as IScrapeResult;
-
-						// Calculate request latency
-						const requestLatencyMs = Date.now() - requestStartTime;
-
-						// Extract page title and links from HTML
-						const $ = cheerio.load(scrapeResult.body);
 						const allLinks = new Set<string>();
-						const ignoredLinks = new Set<string>();
+						const ignoredLinks = new Map<string, IUrlRejection>();
 						const includedLinks = new Set<string>();
 
-						$('a[href]').each((_, element) => {
-							const href = $(element).attr('href');
-							if (!href) return;
+						// Relative URLs are resolved against <base href> when the page has one
+						const linkBaseUrl = getLinkBaseUrl($, queueItem.url);
 
+						// Outgoing links of the page for the link graph, including ignored ones
+						const pageLinks = new Map<string, INewCrawlerLink>();
+
+						for (const { href, text, rel } of collectLinks($, options)) {
 							try {
 								// Resolve relative URLs
-								const resolvedUrl = new URL(href, queueItem.url).toString();
+								const resolvedUrl = new URL(href, linkBaseUrl).toString();
 								const normalizedUrl = normalizeUrl(resolvedUrl);
 								allLinks.add(normalizedUrl);
+
+								if (/^https?:/.test(normalizedUrl) && !pageLinks.has(normalizedUrl)) {
+									pageLinks.set(normalizedUrl, {
+										to_url: normalizedUrl,
+										anchor_text: text,
+										rel,
+										nofollow: /(^|\s)nofollow(\s|$)/i.test(rel ?? ''),
+									});
+								}
 								
-								if (shouldProcessUrl(normalizedUrl, includePatterns, excludePatterns)) {
-									if (crawlExternal || new URL(normalizedUrl).hostname === new URL(queueItem.url).hostname) {
-										includedLinks.add(normalizedUrl);
-									} else {
-										ignoredLinks.add(normalizedUrl);
-									}
+								const rejection = filterUrl(normalizedUrl);
+								if (rejection) {
+									ignoredLinks.set(normalizedUrl, rejection);
+								} else if (crawlExternal || new URL(normalizedUrl).hostname === new URL(queueItem.url).hostname) {
+									includedLinks.add(normalizedUrl);
 								} else {
-									ignoredLinks.add(normalizedUrl);
+									ignoredLinks.set(normalizedUrl, { reason: 'external_host', detail: 'External host' });
 								}
 							} catch (e) {
-								logToCrawler.call(this, db, runId, 'debug', `Skipping invalid URL "${href}"`, { 
+								await logToCrawler.call(this, storage, runId, 'debug', `Skipping invalid URL "${href}"`, { 
 									runId,
 									parentUrl: queueItem.url,
 									error: e.message,
 								});
 							}
-						});
+						}
+
+						for (const link of Array.from(includedLinks)) {
+							if (!(await checkRobotsTxt(link, queueItem.url))) {
+								includedLinks.delete(link);
+								ignoredLinks.set(link, { reason: 'robots_txt', detail: 'Disallowed by robots.txt' });
+							}
+						}
 
 						// Detailed logging for the first page only
 						if (processedPages === 0) {
-							const ignoredLinksArray = Array.from(ignoredLinks);
+							const ignoredLinksArray = Array.from(ignoredLinks.entries());
 							const includedLinksArray = Array.from(includedLinks);
-							
-							logToCrawler.call(this, db, runId, 'info', `First page link analysis for "${queueItem.url}"`, { 
+							const ignoredByReason: Partial<Record<UrlRejectionReason, number>> = {};
+							for (const [, rejection] of ignoredLinksArray) {
+								ignoredByReason[rejection.reason] = (ignoredByReason[rejection.reason] ?? 0) + 1;
+							}
+
+							await logToCrawler.call(this, storage, runId, 'info', `First page link analysis for "${queueItem.url}"`, { 
 								runId,
 								total_links_found: allLinks.size,
 								links_included: includedLinks.size,
 								links_ignored: ignoredLinks.size,
-								sample_ignored_links: ignoredLinksArray.slice(0, 30),
+								ignored_by_reason: ignoredByReason,
+								sample_ignored_links: ignoredLinksArray.slice(0, 30).map(([url, rejection]) => ({ url, ...rejection })),
 								sample_included_links: includedLinksArray.slice(0, 10),
 								include_patterns: includePatterns,
 								exclude_patterns: excludePatterns,
+								url_filter_mode: options.urlFilterMode ?? 'glob',
+								link_sources: options.linkSources ?? DEFAULT_LINK_SOURCES,
 								crawl_external: crawlExternal,
+								respect_robots_txt: !!options.respectRobotsTxt,
 							});
 						}
 
-						// Store response data
-						await db.none(
-							`UPDATE crawler_queue 
-							SET response_html = $1, 
-								response_status_code = $2, 
-								response_final_url = $3,
-								page_title = $4
-							WHERE id = $5`,
-							[
-								scrapeResult.body,
-								scrapeResult.info.statusCode,
-								scrapeResult.info.finalUrl,
-								$('title').text().trim().substring(0, 250),
-								queueItem.id,
-							],
-						);
+						// Run per-page extraction, a failing extractor doesn't fail the page. The custom extractor
+						// replaces the result of the ScrapeNinja extractor when both are set.
+						let extractedJson: any = scrapeResult.extractor?.result ?? null;
+						let contentMarkdown: string | null = null;
+
+						if (options.customExtractor) {
+							try {
+								extractedJson = runCustomExtractor(options.customExtractor, scrapeResult.body);
+							} catch (e) {
+								await logToCrawler.call(this, storage, runId, 'warn', `Custom extractor failed for "${queueItem.url}"`, {
+									url: queueItem.url,
+									error: e.message,
+								});
+							}
+						}
 
-						logToCrawler.call(this, db, runId, 'debug', `ScrapeNinja response info for "${queueItem.url}"`, { 
+						if (options.extractPrimaryContent) {
+							try {
+								contentMarkdown = extractPrimaryContent(scrapeResult.body, true)?.content ?? null;
+							} catch (e) {
+								await logToCrawler.call(this, storage, runId, 'warn', `Primary content extraction failed for "${queueItem.url}"`, {
+									url: queueItem.url,
+									error: e.message,
+								});
+							}
+						}
+
+						const contentHash = computeContentHash($);
+						let changeStatus: CrawlerChangeStatus | null = null;
+
+						if (previousRunId) {
+							const previousPage = await storage.getCompletedItem(previousRunId, queueItem.url);
+							changeStatus = !previousPage
+								? 'new'
+								: previousPage.content_hash === contentHash ? 'unchanged' : 'changed';
+						}
+
+						// Store response data, clearing the error of earlier failed attempts
+						await storage.updateItem(queueItem.id, {
+							error: null,
+							attempts: queueItem.attempts + 1,
+							latency_ms: requestLatencyMs,
+							response_bytes: responseBytes,
+							response_html: scrapeResult.body,
+							screenshot: scrapeResult.info.screenshot || null,
+							response_status_code: scrapeResult.info.statusCode,
+							response_final_url: scrapeResult.info.finalUrl,
+							page_title: $('title').text().trim().substring(0, 250),
+							extracted_json: extractedJson ?? null,
+							content_markdown: contentMarkdown,
+							content_hash: contentHash,
+							change_status: changeStatus,
+						});
+
+						await logToCrawler.call(this, storage, runId, 'debug', `ScrapeNinja response info for "${queueItem.url}"`, { 
 							runId,
 							url: queueItem.url,
 							statusCode: scrapeResult.info.statusCode,
@@ -434,41 +585,14 @@ export async function processCrawlerQueue(
 
 						// Add included links to the queue
 						if (queueItem.depth < maxDepth) {
-							await db.tx(async (t: ITask<any>) => {
-								// Get all existing URLs for this run in one query
-								const existingUrls = new Set(
-									(await t.manyOrNone<{ url: string }>(
-										'SELECT url FROM crawler_queue WHERE run_id = $1',
-										[runId],
-									)).map(row => row.url)
-								);
-
-								// Filter out existing URLs
-								const newLinks = Array.from(includedLinks).filter(link => !existingUrls.has(link));
-								linksQueued = newLinks.length;
-
-								if (linksQueued > 0) {
-									// Prepare batch insert values
-									const values = newLinks.map(link => ({
-										run_id: runId,
-										url: normalizeUrl(link),
-										status: 'pending',
-										parent_url: queueItem.url,
-										depth: queueItem.depth + 1,
-									}));
-
-									// Insert all new URLs in one query
-									await t.none(
-										`INSERT INTO crawler_queue 
-										(run_id, url, status, parent_url, depth) 
-										SELECT v.run_id, v.url, v.status, v.parent_url, v.depth 
-										FROM jsonb_to_recordset($1) AS v(run_id int, url text, status text, parent_url text, depth int)`,
-										[JSON.stringify(values)],
-									);
-								}
-							});
-
-							logToCrawler.call(this, db, runId, 'debug', `Queued ${linksQueued} new URLs for crawling`, { 
+							// URLs which are already queued for this run are skipped by the storage
+							linksQueued = await storage.enqueue(runId, Array.from(includedLinks).map((link) => ({
+								url: normalizeUrl(link),
+								parent_url: queueItem.url,
+								depth: queueItem.depth + 1,
+							})));
+
+							await logToCrawler.call(this, storage, runId, 'debug', `Queued ${linksQueued} new URLs for crawling`, { 
 								runId,
 								parentUrl: queueItem.url,
 								linksQueued,
@@ -476,29 +600,37 @@ export async function processCrawlerQueue(
 							});
 						}
 
+						// In-degree of linked pages, self-links don't count
+						await storage.addInlinks(runId, Array.from(includedLinks).filter((link) => link !== queueItem.url));
+						await storage.setPageLinks(runId, queueItem.url, Array.from(pageLinks.values()));
+
+						// Links leaving the crawl are checked, unless an exclude rule says they are not of interest
+						if (options.checkExternalLinks) {
+							const pageHost = new URL(queueItem.url).hostname;
+							const externalLinks = Array.from(pageLinks.keys()).filter((link) =>
+								new URL(link).hostname !== pageHost &&
+								!includedLinks.has(link) &&
+								!['exclude_pattern', 'exclude_regex'].includes(ignoredLinks.get(link)?.reason ?? ''),
+							);
+
+							for (let i = 0; i < externalLinks.length; i += LINK_CHECK_CONCURRENCY) {
+								await Promise.all(externalLinks.slice(i, i + LINK_CHECK_CONCURRENCY)
+									.map((link) => checkExternalLink(link, queueItem.url)));
+							}
+						}
+
 						// Mark current URL as completed
-						await db.none(
-							'UPDATE crawler_queue SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-							['completed', queueItem.id],
-						);
+						await storage.updateItem(queueItem.id, { status: 'completed' });
 
 						// Get queue stats
-						const stats = await db.one<{ total: string, pending: string, completed: string, failed: string }>(
-							`SELECT 
-								COUNT(*) as total,
-								COUNT(*) FILTER (WHERE status = 'pending') as pending,
-								COUNT(*) FILTER (WHERE status = 'completed') as completed,
-								COUNT(*) FILTER (WHERE status = 'failed') as failed
-							FROM crawler_queue 
-							WHERE run_id = $1`,
-							[runId],
-						);
+						const stats = await storage.countItems(runId);
 
 						// Increment processed pages counter here only
 						processedPages++;
+						consecutiveFailures = 0;
 
 						// Add latency to success log
-						logToCrawler.call(this, db, runId, 'info', `Successfully processed page "${queueItem.url}"`, {
+						await logToCrawler.call(this, storage, runId, 'info', `Successfully processed page "${queueItem.url}"`, {
 							url: queueItem.url,
 							status: 'completed',
 							parent_url: queueItem.parent_url,
@@ -510,21 +642,20 @@ export async function processCrawlerQueue(
 							max_pages: maxPages,
 							latency_ms: requestLatencyMs,
 							queue_stats: {
-								total: parseInt(stats.total),
-								pending: parseInt(stats.pending),
-								completed: parseInt(stats.completed),
-								failed: parseInt(stats.failed),
+								total: stats.total,
+								pending: stats.pending,
+								completed: stats.completed,
+								failed: stats.failed,
 							},
 						});
 
 						// Check if we've reached maxPages
 						if (processedPages >= maxPages) {
-							isProcessing = false;
-							logToCrawler.call(this, db, runId, 'info', `Reached maximum pages (${maxPages}), stopping crawler`, { 
+							await logToCrawler.call(this, storage, runId, 'info', `Reached maximum pages (${maxPages}), stopping crawler`, { 
 								processedPages,
 								maxPages,
 							});
-							await cancelRemainingItems(db, runId, `Reached maximum pages limit (${maxPages})`);
+							await cancelRemainingItems(storage, runId, `Reached maximum pages limit (${maxPages})`);
 						}
 					} catch (error) {
 						// Calculate latency even for failed requests
@@ -555,7 +686,7 @@ export async function processCrawlerQueue(
 							}
 						}
 
-						logToCrawler.call(this, db, runId, 'error', `Failed to process page "${queueItem.url}"`, { 
+						await logToCrawler.call(this, storage, runId, 'error', `Failed to process page "${queueItem.url}"`, { 
 							runId,
 							url: queueItem.url,
 							error: errorDetails,
@@ -565,49 +696,52 @@ export async function processCrawlerQueue(
 							latency_ms: requestLatencyMs,
 						});
 
-						// Mark URL as failed and check failure count in a transaction
-						const shouldStopCrawling = await db.tx(async (t: ITask<any>) => {
-							const errorData = errorResponse
-								? JSON.stringify({ message: error.message, response: errorResponse })
-								: error.message;
-							await t.none(
-								'UPDATE crawler_queue SET status = $1, error = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $3',
-								['failed', errorData, queueItem.id],
-							);
-
-							const failedCount = await t.one<{ count: number }>(
-								'SELECT COUNT(*) as count FROM crawler_queue WHERE run_id = $1 AND status = $2',
-								[runId, 'failed'],
-							);
+						const errorData = errorResponse
+							? JSON.stringify({ message: error.message, response: errorResponse })
+							: error.message;
+						const attempts = queueItem.attempts + 1;
+						const maxRetries = options.maxRetries ?? 0;
+
+						// Put the URL back into the queue until its retries are used up, waiting longer after every attempt
+						if (attempts <= maxRetries) {
+							const retryDelayMs = (options.retryBackoffMs ?? 5000) * 2 ** (attempts - 1);
+							await storage.updateItem(queueItem.id, {
+								status: 'pending',
+								error: errorData,
+								attempts,
+								next_attempt_at: new Date(Date.now() + retryDelayMs),
+								latency_ms: requestLatencyMs,
+							});
 
-							if (failedCount.count > 10) {
-								logToCrawler.call(this, db, runId, 'warn', `Too many failed requests (${failedCount.count}) for run "${runId}", stopping crawler`, {
-									runId,
-									failedCount: failedCount.count,
-								});
-								await t.none(
-									'UPDATE crawler_runs SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-									['failed', runId],
-								);
-								return true;
-							}
+							await logToCrawler.call(this, storage, runId, 'warn', `Retrying "${queueItem.url}" in ${retryDelayMs}ms (retry ${attempts} of ${maxRetries})`, {
+								runId,
+								url: queueItem.url,
+								attempts,
+								maxRetries,
+								retryDelayMs,
+							});
+							return;
+						}
 
-							return false;
-						});
+						// Mark URL as failed and check the failure budget
+						await storage.updateItem(queueItem.id, { status: 'failed', error: errorData, attempts, latency_ms: requestLatencyMs });
+						consecutiveFailures++;
 
 						// Get queue stats
-						const stats = await db.one<{ total: string, pending: string, completed: string, failed: string }>(
-							`SELECT 
-								COUNT(*) as total,
-								COUNT(*) FILTER (WHERE status = 'pending') as pending,
-								COUNT(*) FILTER (WHERE status = 'completed') as completed,
-								COUNT(*) FILTER (WHERE status = 'failed') as failed
-							FROM crawler_queue 
-							WHERE run_id = $1`,
-							[runId],
-						);
-
-						logToCrawler.call(this, db, runId, 'error', `Error details for failed page "${queueItem.url}"`, {
+						const stats = await storage.countItems(runId);
+
+						const stopReason = getFailureStopReason(options, stats, initialStats, consecutiveFailures);
+						if (stopReason) {
+							await logToCrawler.call(this, storage, runId, 'warn', `${stopReason} for run "${runId}", stopping crawler`, {
+								runId,
+								failedCount: stats.failed,
+								consecutiveFailures,
+								failurePolicy: options.failurePolicy ?? 'count',
+							});
+							await storage.updateRun(runId, { status: 'failed' });
+						}
+
+						await logToCrawler.call(this, storage, runId, 'error', `Error details for failed page "${queueItem.url}"`, {
 							url: queueItem.url,
 							status: 'failed',
 							parent_url: queueItem.parent_url,
@@ -618,53 +752,81 @@ export async function processCrawlerQueue(
 							max_pages: maxPages,
 							latency_ms: requestLatencyMs,
 							queue_stats: {
-								total: parseInt(stats.total),
-								pending: parseInt(stats.pending),
-								completed: parseInt(stats.completed),
-								failed: parseInt(stats.failed),
+								total: stats.total,
+								pending: stats.pending,
+								completed: stats.completed,
+								failed: stats.failed,
 							},
 						});
 
-						if (shouldStopCrawling) {
-							logToCrawler.call(this, db, runId, 'error', 'Too many failed requests, stopping crawler');
-							await cancelRemainingItems(db, runId, 'Too many failed requests');
-							throw new NodeOperationError(this.getNode(), 'Too many failed requests, stopping crawler');
+						if (stopReason) {
+							await logToCrawler.call(this, storage, runId, 'error', `${stopReason}, stopping crawler`);
+							await cancelRemainingItems(storage, runId, stopReason, 'failed');
+							throw new NodeOperationError(this.getNode(), `${stopReason}, stopping crawler`);
 						}
 					}
-				});
+				}, new URL(queueItem.url).host);
 			}
 		});
 
-		// Wait for all processors to complete
-		await Promise.all(processors);
+		// Wait for all processors to settle, a worker stopping the run must not cut off the others mid-page
+		const results = await Promise.allSettled(processors);
+		const rejected = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+		if (rejected) {
+			throw rejected.reason;
+		}
+
+		const stats = await storage.countItems(runId);
+		if (stats.completed === 0 && stats.pending === 0 && stats.processing === 0) {
+			await logToCrawler.call(
+				this,
+				storage,
+				runId,
+				'warn',
+				'No URLs processed successfully, stopping crawler',
+				{
+					runId,
+					queue_stats: {
+						total: stats.total,
+						pending: stats.pending,
+						completed: stats.completed,
+						failed: stats.failed,
+					},
+				},
+			);
+			await storage.updateRun(runId, { status: 'failed' }, ['running']);
+		}
 
 	} catch (error) {
-		isProcessing = false;
 		await queue.stop();
-		await cancelRemainingItems(db, runId, error.message);
+		await cancelRemainingItems(storage, runId, error.message, 'failed');
 		throw error;
 	} finally {
-		// Check if there are any remaining pending/processing items
-		const pendingCount = await db.one<{ count: string }>(
-			`SELECT COUNT(*) as count 
-			FROM crawler_queue 
-			WHERE run_id = $1 AND status IN ('pending', 'processing')`,
-			[runId],
-		);
-
-		if (parseInt(pendingCount.count) > 0) {
-			await cancelRemainingItems(db, runId, 'Crawler process ended');
+		const finalRun = await storage.getRun(runId);
+
+		if (finalRun?.status === 'paused') {
+			// Keep the queue intact so the run can be resumed later
+			await storage.updateItems(runId, ['processing'], { status: 'pending' });
+
+			await logToCrawler.call(this, storage, runId, 'info', `Crawler run "${runId}" paused`, { 
+				processedPages,
+				maxPages,
+			});
 		} else {
-			// Only mark as completed if no items were canceled
-			await db.none(
-				'UPDATE crawler_runs SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-				['completed', runId],
-			);
+			// Check if there are any remaining pending/processing items
+			const remaining = await storage.countItems(runId);
+
+			if (remaining.pending + remaining.processing > 0) {
+				await cancelRemainingItems(storage, runId, 'Crawler process ended');
+			} else {
+				// Only mark as completed if no items were canceled and the run was not stopped meanwhile
+				await storage.updateRun(runId, { status: 'completed' }, ['running']);
+			}
+
+			await logToCrawler.call(this, storage, runId, 'info', `Crawler process completed for run "${runId}"`, { 
+				processedPages,
+				maxPages,
+			});
 		}
-		
-		logToCrawler.call(this, db, runId, 'info', `Crawler process completed for run "${runId}"`, { 
-			processedPages,
-			maxPages,
-		});
 	}
-} 
\ No newline at end of file
+}
@@ -0,0 +1,405 @@
+/**
+ * Table names of one crawler deployment. Several deployments can share a database by using
+ * different table prefixes (and Postgres schemas).
+ */
+export interface ICrawlerTables {
+	runs: string;
+	queue: string;
+	logs: string;
+	links: string;
+	linkChecks: string;
+	schemaVersion: string;
+	// Index names are not schema-qualified, so they only get the table prefix
+	indexPrefix: string;
+}
+
+export interface ICrawlerMigration {
+	version: number;
+	name: string;
+	// Migrations must be idempotent: installs created before versioning already have some of the changes
+	up: (t: ICrawlerTables) => string;
+}
+
+// Table prefixes become part of identifiers, so only a safe subset of characters is allowed
+export const TABLE_PREFIX_REGEX = /^[a-z0-9_]*$/;
+
+export function getCrawlerTables(prefix: string, quoteName: (name: string) => string): ICrawlerTables {
+	return {
+		runs: quoteName(`${prefix}crawler_runs`),
+		queue: quoteName(`${prefix}crawler_queue`),
+		logs: quoteName(`${prefix}crawler_logs`),
+		links: quoteName(`${prefix}crawler_links`),
+		linkChecks: quoteName(`${prefix}crawler_link_checks`),
+		schemaVersion: quoteName(`${prefix}crawler_schema_version`),
+		indexPrefix: prefix,
+	};
+}
+
+export const postgresMigrations: ICrawlerMigration[] = [
+	{
+		version: 1,
+		name: 'create_crawler_tables',
+		up: (t) => `
+			CREATE TABLE IF NOT EXISTS ${t.runs} (
+				id SERIAL PRIMARY KEY,
+				start_url TEXT NOT NULL,
+				status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'paused', 'completed', 'failed', 'canceled')),
+				max_depth INTEGER NOT NULL,
+				max_pages INTEGER NOT NULL,
+				concurrency INTEGER NOT NULL DEFAULT 1,
+				include_patterns TEXT[] DEFAULT '{}',
+				exclude_patterns TEXT[] DEFAULT '{}',
+				crawl_external BOOLEAN DEFAULT false,
+				settings JSONB NOT NULL,
+				created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+				updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+				completed_at TIMESTAMP WITH TIME ZONE
+			);
+
+			CREATE TABLE IF NOT EXISTS ${t.queue} (
+				id SERIAL PRIMARY KEY,
+				run_id INTEGER NOT NULL REFERENCES ${t.runs}(id),
+				url TEXT NOT NULL,
+				status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'canceled')),
+				parent_url TEXT,
+				depth INTEGER NOT NULL DEFAULT 0,
+				error TEXT,
+				response_html TEXT,
+				response_status_code INTEGER,
+				response_final_url TEXT,
+				page_title VARCHAR(250),
+				created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+				updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+			);
+
+			CREATE TABLE IF NOT EXISTS ${t.logs} (
+				id SERIAL PRIMARY KEY,
+				run_id INTEGER NOT NULL REFERENCES ${t.runs}(id),
+				level VARCHAR(10) NOT NULL,
+				message TEXT NOT NULL,
+				metadata JSONB,
+				created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+			);
+
+			CREATE INDEX IF NOT EXISTS ${t.indexPrefix}idx_crawler_queue_run_id ON ${t.queue}(run_id);
+			CREATE INDEX IF NOT EXISTS ${t.indexPrefix}idx_crawler_queue_status ON ${t.queue}(status);
+			CREATE INDEX IF NOT EXISTS ${t.indexPrefix}idx_crawler_queue_url_dedup ON ${t.queue}(run_id, url);
+			CREATE INDEX IF NOT EXISTS ${t.indexPrefix}idx_crawler_logs_run_id ON ${t.logs}(run_id);
+			CREATE INDEX IF NOT EXISTS ${t.indexPrefix}idx_crawler_logs_created_at ON ${t.logs}(created_at);
+		`,
+	},
+	{
+		// Early versions created crawler_queue without the response columns
+		version: 2,
+		name: 'add_queue_response_columns',
+		up: (t) => `
+			ALTER TABLE ${t.queue} ADD COLUMN IF NOT EXISTS error TEXT;
+			ALTER TABLE ${t.queue} ADD COLUMN IF NOT EXISTS response_html TEXT;
+			ALTER TABLE ${t.queue} ADD COLUMN IF NOT EXISTS response_status_code INTEGER;
+			ALTER TABLE ${t.queue} ADD COLUMN IF NOT EXISTS response_final_url TEXT;
+			ALTER TABLE ${t.queue} ADD COLUMN IF NOT EXISTS page_title VARCHAR(250);
+			ALTER TABLE ${t.queue} ALTER COLUMN status SET DEFAULT 'pending';
+		`,
+	},
+	{
+		version: 3,
+		name: 'add_run_start_urls_and_options',
+		up: (t) => `
+			ALTER TABLE ${t.runs} ADD COLUMN IF NOT EXISTS start_urls TEXT[] DEFAULT '{}';
+			ALTER TABLE ${t.runs} ADD COLUMN IF NOT EXISTS options JSONB NOT NULL DEFAULT '{}';
+			ALTER TABLE ${t.runs} ADD COLUMN IF NOT EXISTS previous_run_id INTEGER REFERENCES ${t.runs}(id);
+		`,
+	},
+	{
+		version: 4,
+		name: 'add_queue_extraction_and_change_columns',
+		up: (t) => `
+			ALTER TABLE ${t.queue} ADD COLUMN IF NOT EXISTS lastmod TIMESTAMP WITH TIME ZONE;
+			ALTER TABLE ${t.queue} ADD COLUMN IF NOT EXISTS extracted_json JSONB;
+			ALTER TABLE ${t.queue} ADD COLUMN IF NOT EXISTS content_markdown TEXT;
+			ALTER TABLE ${t.queue} ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+			ALTER TABLE ${t.queue} ADD COLUMN IF NOT EXISTS change_status VARCHAR(10) CHECK (change_status IN ('new', 'changed', 'unchanged'));
+		`,
+	},
+	{
+		version: 5,
+		name: 'add_queue_retry_columns',
+		up: (t) => `
+			ALTER TABLE ${t.queue} ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+			ALTER TABLE ${t.queue} ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE;
+		`,
+	},
+	{
+		version: 6,
+		name: 'add_queue_stats_columns',
+		up: (t) => `
+			ALTER TABLE ${t.queue} ADD COLUMN IF NOT EXISTS latency_ms INTEGER;
+			ALTER TABLE ${t.queue} ADD COLUMN IF NOT EXISTS response_bytes INTEGER;
+			ALTER TABLE ${t.queue} ADD COLUMN IF NOT EXISTS inlink_count INTEGER NOT NULL DEFAULT 0;
+		`,
+	},
+	{
+		version: 7,
+		name: 'create_crawler_links_table',
+		up: (t) => `
+			CREATE TABLE IF NOT EXISTS ${t.links} (
+				id SERIAL PRIMARY KEY,
+				run_id INTEGER NOT NULL REFERENCES ${t.runs}(id),
+				from_url TEXT NOT NULL,
+				to_url TEXT NOT NULL,
+				anchor_text TEXT,
+				rel TEXT,
+				nofollow BOOLEAN NOT NULL DEFAULT false,
+				created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+			);
+
+			CREATE INDEX IF NOT EXISTS ${t.indexPrefix}idx_crawler_links_run_id_from_url ON ${t.links}(run_id, from_url);
+			CREATE INDEX IF NOT EXISTS ${t.indexPrefix}idx_crawler_links_run_id_to_url ON ${t.links}(run_id, to_url);
+		`,
+	},
+	{
+		version: 8,
+		name: 'create_crawler_link_checks_table',
+		up: (t) => `
+			CREATE TABLE IF NOT EXISTS ${t.linkChecks} (
+				id SERIAL PRIMARY KEY,
+				run_id INTEGER NOT NULL REFERENCES ${t.runs}(id),
+				url TEXT NOT NULL,
+				status_code INTEGER,
+				final_url TEXT,
+				redirect_chain JSONB NOT NULL DEFAULT '[]',
+				problem VARCHAR(20),
+				error TEXT,
+				latency_ms INTEGER,
+				created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+				UNIQUE (run_id, url)
+			);
+		`,
+	},
+	{
+		// Permanently skipped URLs were stored as canceled before, resume would fetch them
+		version: 9,
+		name: 'add_queue_skipped_status',
+		up: (t) => `
+			ALTER TABLE ${t.queue} DROP CONSTRAINT IF EXISTS ${t.indexPrefix}crawler_queue_status_check;
+			ALTER TABLE ${t.queue} ADD CONSTRAINT ${t.indexPrefix}crawler_queue_status_check
+				CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'canceled', 'skipped'));
+
+			UPDATE ${t.queue} SET status = 'skipped'
+			WHERE status = 'canceled' AND (
+				error = 'Disallowed by robots.txt'
+				OR error LIKE 'Duplicate of canonical URL %'
+				OR error LIKE 'Content type % is not allowed'
+			);
+		`,
+	},
+	{
+		version: 10,
+		name: 'add_queue_screenshot_column',
+		up: (t) => `
+			ALTER TABLE ${t.queue} ADD COLUMN IF NOT EXISTS screenshot TEXT;
+		`,
+	},
+	{
+		// Lets enqueue() skip queued URLs with ON CONFLICT instead of loading all URLs of the run,
+		// duplicates queued by concurrent executions before are removed first
+		version: 11,
+		name: 'add_queue_url_unique_constraint',
+		up: (t) => `
+			DELETE FROM ${t.queue} duplicate
+			USING ${t.queue} original
+			WHERE duplicate.run_id = original.run_id AND duplicate.url = original.url AND duplicate.id > original.id;
+
+			ALTER TABLE ${t.queue} DROP CONSTRAINT IF EXISTS ${t.indexPrefix}crawler_queue_run_id_url_key;
+			ALTER TABLE ${t.queue} ADD CONSTRAINT ${t.indexPrefix}crawler_queue_run_id_url_key UNIQUE (run_id, url);
+		`,
+	},
+];
+
+// Arrays and JSON are stored as JSON text, timestamps as ISO strings
+export const sqliteMigrations: ICrawlerMigration[] = [
+	{
+		version: 1,
+		name: 'create_crawler_tables',
+		up: (t) => `
+			CREATE TABLE IF NOT EXISTS ${t.runs} (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				start_url TEXT NOT NULL,
+				start_urls TEXT NOT NULL DEFAULT '[]',
+				status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'paused', 'completed', 'failed', 'canceled')),
+				max_depth INTEGER NOT NULL,
+				max_pages INTEGER NOT NULL,
+				concurrency INTEGER NOT NULL DEFAULT 1,
+				include_patterns TEXT NOT NULL DEFAULT '[]',
+				exclude_patterns TEXT NOT NULL DEFAULT '[]',
+				crawl_external INTEGER NOT NULL DEFAULT 0,
+				settings TEXT NOT NULL,
+				options TEXT NOT NULL DEFAULT '{}',
+				previous_run_id INTEGER REFERENCES ${t.runs}(id),
+				created_at TEXT NOT NULL,
+				updated_at TEXT NOT NULL,
+				completed_at TEXT
+			);
+
+			CREATE TABLE IF NOT EXISTS ${t.queue} (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				run_id INTEGER NOT NULL REFERENCES ${t.runs}(id),
+				url TEXT NOT NULL,
+				status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'canceled')),
+				parent_url TEXT,
+				depth INTEGER NOT NULL DEFAULT 0,
+				error TEXT,
+				response_html TEXT,
+				response_status_code INTEGER,
+				response_final_url TEXT,
+				page_title TEXT,
+				lastmod TEXT,
+				extracted_json TEXT,
+				content_markdown TEXT,
+				content_hash TEXT,
+				change_status TEXT CHECK (change_status IN ('new', 'changed', 'unchanged')),
+				created_at TEXT NOT NULL,
+				updated_at TEXT NOT NULL
+			);
+
+			CREATE TABLE IF NOT EXISTS ${t.logs} (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				run_id INTEGER NOT NULL REFERENCES ${t.runs}(id),
+				level TEXT NOT NULL,
+				message TEXT NOT NULL,
+				metadata TEXT,
+				created_at TEXT NOT NULL
+			);
+
+			CREATE INDEX IF NOT EXISTS ${t.indexPrefix}idx_crawler_queue_run_id_status ON ${t.queue}(run_id, status);
+			CREATE INDEX IF NOT EXISTS ${t.indexPrefix}idx_crawler_queue_url_dedup ON ${t.queue}(run_id, url);
+			CREATE INDEX IF NOT EXISTS ${t.indexPrefix}idx_crawler_logs_run_id ON ${t.logs}(run_id);
+		`,
+	},
+	{
+		version: 2,
+		name: 'add_queue_retry_columns',
+		up: (t) => `
+			ALTER TABLE ${t.queue} ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+			ALTER TABLE ${t.queue} ADD COLUMN next_attempt_at TEXT;
+		`,
+	},
+	{
+		version: 3,
+		name: 'add_queue_stats_columns',
+		up: (t) => `
+			ALTER TABLE ${t.queue} ADD COLUMN latency_ms INTEGER;
+			ALTER TABLE ${t.queue} ADD COLUMN response_bytes INTEGER;
+			ALTER TABLE ${t.queue} ADD COLUMN inlink_count INTEGER NOT NULL DEFAULT 0;
+		`,
+	},
+	{
+		version: 4,
+		name: 'create_crawler_links_table',
+		up: (t) => `
+			CREATE TABLE IF NOT EXISTS ${t.links} (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				run_id INTEGER NOT NULL REFERENCES ${t.runs}(id),
+				from_url TEXT NOT NULL,
+				to_url TEXT NOT NULL,
+				anchor_text TEXT,
+				rel TEXT,
+				nofollow INTEGER NOT NULL DEFAULT 0,
+				created_at TEXT NOT NULL
+			);
+
+			CREATE INDEX IF NOT EXISTS ${t.indexPrefix}idx_crawler_links_run_id_from_url ON ${t.links}(run_id, from_url);
+			CREATE INDEX IF NOT EXISTS ${t.indexPrefix}idx_crawler_links_run_id_to_url ON ${t.links}(run_id, to_url);
+		`,
+	},
+	{
+		version: 5,
+		name: 'create_crawler_link_checks_table',
+		up: (t) => `
+			CREATE TABLE IF NOT EXISTS ${t.linkChecks} (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				run_id INTEGER NOT NULL REFERENCES ${t.runs}(id),
+				url TEXT NOT NULL,
+				status_code INTEGER,
+				final_url TEXT,
+				redirect_chain TEXT NOT NULL DEFAULT '[]',
+				problem TEXT,
+				error TEXT,
+				latency_ms INTEGER,
+				created_at TEXT NOT NULL,
+				UNIQUE (run_id, url)
+			);
+		`,
+	},
+	{
+		// SQLite can't change a CHECK constraint, so the queue table is rebuilt
+		version: 6,
+		name: 'add_queue_skipped_status',
+		up: (t) => `
+			ALTER TABLE ${t.queue} RENAME TO ${t.indexPrefix}crawler_queue_old;
+
+			CREATE TABLE ${t.queue} (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				run_id INTEGER NOT NULL REFERENCES ${t.runs}(id),
+				url TEXT NOT NULL,
+				status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'canceled', 'skipped')),
+				parent_url TEXT,
+				depth INTEGER NOT NULL DEFAULT 0,
+				error TEXT,
+				response_html TEXT,
+				response_status_code INTEGER,
+				response_final_url TEXT,
+				page_title TEXT,
+				lastmod TEXT,
+				extracted_json TEXT,
+				content_markdown TEXT,
+				content_hash TEXT,
+				change_status TEXT CHECK (change_status IN ('new', 'changed', 'unchanged')),
+				created_at TEXT NOT NULL,
+				updated_at TEXT NOT NULL,
+				attempts INTEGER NOT NULL DEFAULT 0,
+				next_attempt_at TEXT,
+				latency_ms INTEGER,
+				response_bytes INTEGER,
+				inlink_count INTEGER NOT NULL DEFAULT 0
+			);
+
+			INSERT INTO ${t.queue} SELECT
+				id, run_id, url, status, parent_url, depth, error, response_html, response_status_code, response_final_url,
+				page_title, lastmod, extracted_json, content_markdown, content_hash, change_status, created_at, updated_at,
+				attempts, next_attempt_at, latency_ms, response_bytes, inlink_count
+			FROM ${t.indexPrefix}crawler_queue_old;
+
+			DROP TABLE ${t.indexPrefix}crawler_queue_old;
+
+			CREATE INDEX IF NOT EXISTS ${t.indexPrefix}idx_crawler_queue_run_id_status ON ${t.queue}(run_id, status);
+			CREATE INDEX IF NOT EXISTS ${t.indexPrefix}idx_crawler_queue_url_dedup ON ${t.queue}(run_id, url);
+
+			UPDATE ${t.queue} SET status = 'skipped'
+			WHERE status = 'canceled' AND (
+				error = 'Disallowed by robots.txt'
+				OR error LIKE 'Duplicate of canonical URL %'
+				OR error LIKE 'Content type % is not allowed'
+			);
+		`,
+	},
+	{
+		version: 7,
+		name: 'add_queue_screenshot_column',
+		up: (t) => `
+			ALTER TABLE ${t.queue} ADD COLUMN screenshot TEXT;
+		`,
+	},
+	{
+		// Lets enqueue() skip queued URLs with INSERT OR IGNORE instead of loading all URLs of the run
+		version: 8,
+		name: 'add_queue_url_unique_index',
+		up: (t) => `
+			DELETE FROM ${t.queue}
+			WHERE id NOT IN (SELECT MIN(id) FROM ${t.queue} GROUP BY run_id, url);
+
+			DROP INDEX IF EXISTS ${t.indexPrefix}idx_crawler_queue_url_dedup;
+			CREATE UNIQUE INDEX IF NOT EXISTS ${t.indexPrefix}idx_crawler_queue_run_id_url ON ${t.queue}(run_id, url);
+		`,
+	},
+];
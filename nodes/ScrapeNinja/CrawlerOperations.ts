@@ -1,33 +1,29 @@
 import type {
+	IDataObject,
 	IExecuteFunctions,
+	IHttpRequestOptions,
 	INodeExecutionData,
 	INodeProperties,
 } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
-import pgPromise, { IDatabase, ITask } from 'pg-promise';
-import { processCrawlerQueue } from './CrawlerExecute';
-import { IScrapeSettings } from './types';
-
-interface ICrawlerRun {
-	id: number;
-	start_url: string;
-	status: 'running' | 'completed' | 'failed' | 'canceled';
-	max_depth: number;
-	max_pages: number;
-	concurrency: number;
-	include_patterns: string[];
-	exclude_patterns: string[];
-	crawl_external: boolean;
-	settings: IScrapeSettings;
-	created_at: Date;
-	updated_at: Date;
-	completed_at: Date | null;
-}
+import { NodeHtmlMarkdown } from 'node-html-markdown';
+import { cancelRemainingItems, logToCrawler, processCrawlerQueue } from './CrawlerExecute';
+import { seedQueueFromSitemaps } from './Sitemap';
+import { DEFAULT_SQLITE_FILE, getCrawlerStorage } from './CrawlerStorage';
+import type { ICrawlerRun, ICrawlerStorage } from './CrawlerStorage';
+import { CrawlerFailurePolicy, ICrawlerOptions, ILinkSelector, IScrapeSettings, LinkSource } from './types';
+import { createUrlNormalizer, DEFAULT_REMOVED_QUERY_PARAMS } from './UrlNormalization';
+import { createUrlFilter } from './UrlFilter';
+import { computeCrawlerStats, ICrawlerDetailedStats } from './CrawlerStats';
+import { getScrapeSettings } from './ScrapeNinjaClient';
+import { buildBrokenLinkReport } from './LinkChecker';
+import { validateLinkSelectors } from './LinkExtraction';
+import { ScrapeNinjaApi } from '../../credentials/ScrapeNinjaApi.credentials';
 
 export const crawlerProperties: INodeProperties[] = [
 	// Crawler Settings Group
 	{
-		displayName: 'Crawler Settings. Crawler node can take long time to finish! Please be patient and explore n8n logs to see realtime progress. Also, you can poll Postgres tables crawler_runs and crawler_queue to track the progress and crawler_logs to see detailed crawler logs.',
+		displayName: 'Crawler Settings. Crawler node can take long time to finish! Please be patient and explore n8n logs to see realtime progress. Also, you can poll the crawler_runs and crawler_queue tables of the crawler storage to track the progress and crawler_logs to see detailed crawler logs.',
 		name: 'crawlerSettingsHeader',
 		type: 'notice',
 		default: '',
@@ -37,6 +33,224 @@ export const crawlerProperties: INodeProperties[] = [
 			},
 		},
 	},
+	{
+		displayName: 'Storage',
+		name: 'storageBackend',
+		type: 'options',
+		options: [
+			{
+				name: 'Postgres',
+				value: 'postgres',
+				description: 'Store runs in a Postgres database (needs Postgres credentials)',
+			},
+			{
+				name: 'SQLite File',
+				value: 'sqlite',
+				description: 'Store runs in a local SQLite file, no database server needed. Needs the optional better-sqlite3 package (Node.js 20 or newer).',
+			},
+			{
+				name: 'In-Memory',
+				value: 'memory',
+				description: 'Keep runs in the memory of the n8n process. Runs are lost when n8n restarts and are not shared between n8n workers. Only the 10 most recent finished runs are kept.',
+			},
+		],
+		default: 'postgres',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start', 'crawler-resume', 'crawler-status', 'crawler-cancel', 'crawler-pause', 'crawler-links'],
+			},
+		},
+		description: 'Where crawler runs, their queue and logs are stored. Use the same storage for all operations of a run.',
+	},
+	{
+		displayName: 'SQLite File',
+		name: 'sqliteFile',
+		type: 'string',
+		default: DEFAULT_SQLITE_FILE,
+		displayOptions: {
+			show: {
+				operation: ['crawler-start', 'crawler-resume', 'crawler-status', 'crawler-cancel', 'crawler-pause', 'crawler-links'],
+				storageBackend: ['sqlite'],
+			},
+		},
+		description: 'Path of the SQLite database file. Relative paths are resolved against the n8n user folder (~/.n8n). The file is created if it does not exist.',
+	},
+	{
+		displayName: 'Database Schema',
+		name: 'databaseSchema',
+		type: 'string',
+		default: 'public',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start', 'crawler-resume', 'crawler-status', 'crawler-cancel', 'crawler-pause', 'crawler-links'],
+				storageBackend: ['postgres'],
+			},
+		},
+		description: 'Postgres schema of the crawler tables. It is created if it does not exist.',
+	},
+	{
+		displayName: 'Table Prefix',
+		name: 'tablePrefix',
+		type: 'string',
+		default: '',
+		placeholder: 'e.g. shop_',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start', 'crawler-resume', 'crawler-status', 'crawler-cancel', 'crawler-pause', 'crawler-links'],
+			},
+		},
+		description: 'Prefix for the crawler table names (e.g. "shop_" uses shop_crawler_runs, shop_crawler_queue, shop_crawler_logs, shop_crawler_links and shop_crawler_link_checks), so several crawler setups can share one database. Lowercase letters, digits and underscores only.',
+	},
+	{
+		displayName: 'Run ID',
+		name: 'runId',
+		type: 'number',
+		default: 0,
+		required: true,
+		displayOptions: {
+			show: {
+				operation: ['crawler-resume', 'crawler-status', 'crawler-cancel', 'crawler-pause', 'crawler-links'],
+			},
+		},
+		description: 'ID of the crawler run (see ID column of the crawler_runs table)',
+	},
+	{
+		displayName: 'Report',
+		name: 'linkReport',
+		type: 'options',
+		options: [
+			{
+				name: 'All Links',
+				value: 'links',
+				description: 'One item per link found on crawled pages (crawler_links table)',
+			},
+			{
+				name: 'Orphan Pages',
+				value: 'orphanPages',
+				description: 'Crawled pages no other crawled page links to, e.g. pages only found in the sitemap',
+			},
+			{
+				name: 'Broken Internal Links',
+				value: 'brokenLinks',
+				description: 'Links to crawled pages which failed or responded with status code 400 or higher',
+			},
+			{
+				name: 'Broken Link Report',
+				value: 'brokenLinkReport',
+				description: 'One item per page with its broken internal and external links (4xx/5xx, redirect loops, timeouts). External links are only included when Check External Links was enabled.',
+			},
+		],
+		default: 'links',
+		displayOptions: {
+			show: {
+				operation: ['crawler-links'],
+			},
+		},
+	},
+	{
+		displayName: 'Links Limit',
+		name: 'linksLimit',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 1000,
+		displayOptions: {
+			show: {
+				operation: ['crawler-links'],
+				linkReport: ['links'],
+			},
+		},
+		description: 'Maximum number of links to return. 0 returns all links.',
+	},
+	{
+		displayName: 'Links Offset',
+		name: 'linksOffset',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 0,
+		displayOptions: {
+			show: {
+				operation: ['crawler-links'],
+				linkReport: ['links'],
+			},
+		},
+		description: 'Number of links to skip, use together with Links Limit to page through the link graph',
+	},
+	{
+		displayName: 'Max Pages Override',
+		name: 'resumeMaxPages',
+		type: 'number',
+		default: 0,
+		displayOptions: {
+			show: {
+				operation: ['crawler-resume'],
+			},
+		},
+		description: 'New maximum number of pages for the resumed run. Pages crawled before the resume count towards this limit. 0 keeps the value stored with the run.',
+	},
+	{
+		displayName: 'Pages Limit',
+		name: 'pagesLimit',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 100,
+		displayOptions: {
+			show: {
+				operation: ['crawler-status'],
+			},
+		},
+		description: 'Maximum number of pages (crawler_queue rows) to return. 0 returns all pages.',
+	},
+	{
+		displayName: 'Pages Offset',
+		name: 'pagesOffset',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 0,
+		displayOptions: {
+			show: {
+				operation: ['crawler-status'],
+			},
+		},
+		description: 'Number of pages to skip, use together with Pages Limit to page through results',
+	},
+	{
+		displayName: 'Log Levels',
+		name: 'logLevels',
+		type: 'multiOptions',
+		options: [
+			{
+				name: 'Debug',
+				value: 'debug',
+			},
+			{
+				name: 'Info',
+				value: 'info',
+			},
+			{
+				name: 'Warn',
+				value: 'warn',
+			},
+			{
+				name: 'Error',
+				value: 'error',
+			},
+		],
+		default: [],
+		displayOptions: {
+			show: {
+				operation: ['crawler-status'],
+			},
+		},
+		description: 'Only return crawler logs of these levels. Leave empty to return all logs.',
+	},
 	{
 		displayName: 'Start URL',
 		name: 'startUrl',
@@ -49,7 +263,92 @@ export const crawlerProperties: INodeProperties[] = [
 			},
 		},
 		placeholder: 'https://example.com',
-		description: 'The URL to start crawling from',
+		description: 'The URL to start crawling from. Also accepts one URL per line or an expression resolving to an array of URLs. To crawl URLs of all incoming items in one run, map them into an array with an expression and enable the "Execute Once" node setting.',
+	},
+	{
+		displayName: 'Additional Start URLs',
+		name: 'additionalStartUrls',
+		type: 'string',
+		typeOptions: {
+			multipleValues: true,
+			multipleValueButtonText: 'Add Start URL',
+		},
+		default: [],
+		placeholder: 'https://example.com/category/shoes',
+		description: 'More URLs to start crawling from, all of them are crawled within the same run',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'Seed Mode',
+		name: 'seedMode',
+		type: 'options',
+		options: [
+			{
+				name: 'Start URL Only',
+				value: 'startUrl',
+				description: 'Start from the start URL and discover pages via links',
+			},
+			{
+				name: 'Start URL and Sitemap',
+				value: 'startUrlAndSitemap',
+				description: 'Also queue all sitemap URLs (filtered by URL patterns) at depth 0 before crawling',
+			},
+		],
+		default: 'startUrl',
+		description: 'How to fill the crawler queue before crawling starts',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'Sitemap URLs',
+		name: 'sitemapUrls',
+		type: 'string',
+		typeOptions: {
+			multipleValues: true,
+			multipleValueButtonText: 'Add Sitemap URL',
+		},
+		default: [],
+		placeholder: 'https://example.com/sitemap_index.xml',
+		description: 'Sitemaps or sitemap index files to load. Defaults to /sitemap.xml of every start URL host. Gzipped (.gz) sitemaps are downloaded directly, not through ScrapeNinja.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				seedMode: ['startUrlAndSitemap'],
+			},
+		},
+	},
+	{
+		displayName: 'Use Sitemaps From Robots.txt',
+		name: 'useRobotsTxtSitemaps',
+		type: 'boolean',
+		default: true,
+		description: 'Whether to also load sitemaps declared with "Sitemap:" lines in robots.txt of the start URL hosts',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				seedMode: ['startUrlAndSitemap'],
+			},
+		},
+	},
+	{
+		displayName: 'Store Lastmod',
+		name: 'storeLastmod',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to store the sitemap lastmod date of each URL in the lastmod column of crawler_queue',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				seedMode: ['startUrlAndSitemap'],
+			},
+		},
 	},
 	{
 		displayName: 'Max Depth',
@@ -92,78 +391,769 @@ export const crawlerProperties: INodeProperties[] = [
 		},
 	},
 	{
-		displayName: 'URL Pattern Matching Guide:\n\n' +
-			'Use * to match within a path segment (e.g., /docs/*.html matches /docs/page.html but not /docs/api/page.html)\n' +
-			'Use ** to match across path segments (e.g., /docs/** matches /docs/api/reference/page.html)',
-		name: 'urlPatternGuide',
-		type: 'notice',
-		default: '',
+		displayName: 'Min Delay Between Requests (Ms)',
+		name: 'minDelayMs',
+		type: 'number',
+		default: 0,
+		typeOptions: {
+			minValue: 0,
+		},
 		displayOptions: {
 			show: {
 				operation: ['crawler-start'],
 			},
 		},
+		description: 'Minimum time between two requests to the same host, in milliseconds. Requests to different hosts are not delayed.',
 	},
 	{
-		displayName: 'URL Inclusion Patterns',
-		name: 'includePatterns',
-		type: 'string',
+		displayName: 'Max Requests per Minute per Host',
+		name: 'maxRequestsPerMinute',
+		type: 'number',
+		default: 0,
 		typeOptions: {
-			multipleValues: true,
+			minValue: 0,
 		},
-		default: [],
-		placeholder: 'https://example.com/docs/**',
-		description: 'Only crawl URLs matching these patterns. Examples:\n' +
-			'• example.com/docs/* - match files in docs folder\n' +
-			'• example.com/docs/** - match files in docs and all subfolders\n' +
-			'• example.com/blog/*.html - match HTML files in blog folder\n' +
-			'• example.com/*/index.html - match index.html in direct subfolders',
 		displayOptions: {
 			show: {
-				operation: ['crawler-start'],
+				operation: ['crawler-start'],
+			},
+		},
+		description: 'Maximum number of requests to a single host within any minute. 0 means no limit.',
+	},
+	{
+		displayName: 'Random Jitter (Ms)',
+		name: 'jitterMs',
+		type: 'number',
+		default: 0,
+		typeOptions: {
+			minValue: 0,
+		},
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+		description: 'Random extra delay of up to this many milliseconds added between requests to the same host, so the crawl doesn\'t hit the host at a fixed rhythm',
+	},
+	{
+		displayName: 'Retries per URL',
+		name: 'maxRetries',
+		type: 'number',
+		default: 0,
+		typeOptions: {
+			minValue: 0,
+			maxValue: 10,
+		},
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+		description: 'How many times a failed URL is put back into the queue before it is marked as failed',
+	},
+	{
+		displayName: 'Retry Backoff (Ms)',
+		name: 'retryBackoffMs',
+		type: 'number',
+		default: 5000,
+		typeOptions: {
+			minValue: 0,
+		},
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+		description: 'Delay before the first retry of a failed URL, doubled for every further retry',
+	},
+	{
+		displayName: 'Stop Crawling After',
+		name: 'failurePolicy',
+		type: 'options',
+		options: [
+			{
+				name: 'Too Many Failed Pages',
+				value: 'count',
+				description: 'Stop when more pages than the allowed number have failed',
+			},
+			{
+				name: 'Too High Failure Rate',
+				value: 'percentage',
+				description: 'Stop when the share of failed pages among processed pages exceeds the allowed percentage',
+			},
+			{
+				name: 'Too Many Consecutive Failures',
+				value: 'consecutive',
+				description: 'Stop when more pages than the allowed number fail in a row',
+			},
+			{
+				name: 'Never',
+				value: 'never',
+				description: 'Keep crawling regardless of failed pages',
+			},
+		],
+		default: 'count',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+		description: 'When the crawler gives up because of failed pages. Pages only count as failed once all their retries have failed.',
+	},
+	{
+		displayName: 'Max Failed Pages',
+		name: 'maxFailures',
+		type: 'number',
+		default: 10,
+		typeOptions: {
+			minValue: 0,
+		},
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				failurePolicy: ['count', 'consecutive'],
+			},
+		},
+		description: 'Number of failed pages allowed, the crawler stops when it is exceeded. A resumed run starts counting again, pages failed earlier stay failed.',
+	},
+	{
+		displayName: 'Max Failure Rate (%)',
+		name: 'maxFailurePercentage',
+		type: 'number',
+		default: 20,
+		typeOptions: {
+			minValue: 0,
+			maxValue: 100,
+		},
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				failurePolicy: ['percentage'],
+			},
+		},
+		description: 'Percentage of failed pages among processed pages allowed, the crawler stops when it is exceeded. Checked once at least 10 pages were processed, a resumed run only counts the pages processed since the resume.',
+	},
+	{
+		displayName: 'URL Pattern Matching Guide:\n\n' +
+			'Use * to match within a path segment (e.g., /docs/*.html matches /docs/page.html but not /docs/api/page.html)\n' +
+			'Use ** to match across path segments (e.g., /docs/** matches /docs/api/reference/page.html)',
+		name: 'urlPatternGuide',
+		type: 'notice',
+		default: '',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'URL Inclusion Patterns',
+		name: 'includePatterns',
+		type: 'string',
+		typeOptions: {
+			multipleValues: true,
+		},
+		default: [],
+		placeholder: 'https://example.com/docs/**',
+		description: 'Only crawl URLs matching these patterns. Examples:\n' +
+			'• example.com/docs/* - match files in docs folder\n' +
+			'• example.com/docs/** - match files in docs and all subfolders\n' +
+			'• example.com/blog/*.html - match HTML files in blog folder\n' +
+			'• example.com/*/index.html - match index.html in direct subfolders',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'URL Exclusion Patterns',
+		name: 'excludePatterns',
+		type: 'string',
+		typeOptions: {
+			multipleValues: true,
+		},
+		default: [],
+		placeholder: '**.pdf',
+		description: 'Skip URLs matching these patterns. Examples:\n' +
+			'• **.pdf - skip all PDF files in any folder\n' +
+			'• **/admin/** - skip anything in admin folders\n' +
+			'• example.com/temp/* - skip files in temp folder\n' +
+			'• */draft-* - skip URLs containing draft- in the last segment',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'Link Sources',
+		name: 'linkSources',
+		type: 'multiOptions',
+		options: [
+			{
+				name: 'Data-Href Attributes',
+				value: 'dataHref',
+				description: 'Any element with a data-href attribute',
+			},
+			{
+				name: 'Iframes',
+				value: 'iframes',
+				description: 'Src of iframe and frame elements',
+			},
+			{
+				name: 'Image Map Areas',
+				value: 'areas',
+				description: 'Href of area elements',
+			},
+			{
+				name: 'Links',
+				value: 'anchors',
+				description: 'Href of a elements',
+			},
+			{
+				name: 'Onclick Navigation',
+				value: 'onclick',
+				description: 'URLs assigned to location or passed to location.assign() and window.open() in onclick handlers',
+			},
+			{
+				name: 'Pagination',
+				value: 'pagination',
+				description: 'Link and a elements with rel="next" or rel="prev"',
+			},
+		],
+		default: ['anchors'],
+		description: 'Where the crawler looks for links to follow. Relative URLs are resolved against the base href of the page.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'Custom Link Selectors',
+		name: 'customLinkSelectors',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		default: {},
+		placeholder: 'Add Selector',
+		description: 'Additional elements holding links to follow',
+		options: [
+			{
+				displayName: 'Selector',
+				name: 'selectors',
+				values: [
+					{
+						displayName: 'CSS Selector',
+						name: 'selector',
+						type: 'string',
+						default: '',
+						placeholder: 'button.load-more',
+					},
+					{
+						displayName: 'Attribute',
+						name: 'attribute',
+						type: 'string',
+						default: 'href',
+						placeholder: 'data-url',
+						description: 'Attribute of the matched elements holding the URL',
+					},
+				],
+			},
+		],
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'URL Filter Mode',
+		name: 'urlFilterMode',
+		type: 'options',
+		options: [
+			{
+				name: 'Glob Patterns',
+				value: 'glob',
+				description: 'Only the inclusion and exclusion patterns above',
+			},
+			{
+				name: 'Advanced',
+				value: 'advanced',
+				description: 'Patterns above plus regular expressions, path depth, query parameter, file extension and content type rules',
+			},
+		],
+		default: 'glob',
+		description: 'Ignored links and the reason why they were ignored are listed in the first page link analysis log',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'Include Regexes',
+		name: 'includeRegex',
+		type: 'string',
+		typeOptions: {
+			multipleValues: true,
+		},
+		default: [],
+		placeholder: '^https://example\\.com/(docs|blog)/',
+		description: 'Only crawl URLs matching at least one of these regular expressions. Matched against the full URL, use /pattern/i for flags.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				urlFilterMode: ['advanced'],
+			},
+		},
+	},
+	{
+		displayName: 'Exclude Regexes',
+		name: 'excludeRegex',
+		type: 'string',
+		typeOptions: {
+			multipleValues: true,
+		},
+		default: [],
+		placeholder: '/\\/(tag|author)\\//i',
+		description: 'Skip URLs matching any of these regular expressions. Matched against the full URL, use /pattern/i for flags.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				urlFilterMode: ['advanced'],
+			},
+		},
+	},
+	{
+		displayName: 'Max Path Depth',
+		name: 'maxPathDepth',
+		type: 'number',
+		default: 0,
+		typeOptions: {
+			minValue: 0,
+		},
+		description: 'Skip URLs with more path segments than this, e.g. /docs/api/intro has 3. 0 means no limit.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				urlFilterMode: ['advanced'],
+			},
+		},
+	},
+	{
+		displayName: 'Allowed Query Parameters',
+		name: 'allowedQueryParams',
+		type: 'string',
+		typeOptions: {
+			multipleValues: true,
+		},
+		default: [],
+		placeholder: 'page<=20',
+		description: 'Only crawl URLs whose query parameters all match one of these rules. A rule is a parameter name (globs allowed) with an optional condition: page, page&lt;=20, sort=asc, lang!=de.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				urlFilterMode: ['advanced'],
+			},
+		},
+	},
+	{
+		displayName: 'Denied Query Parameters',
+		name: 'deniedQueryParams',
+		type: 'string',
+		typeOptions: {
+			multipleValues: true,
+		},
+		default: [],
+		placeholder: 'page>20',
+		description: 'Skip URLs with a query parameter matching one of these rules, e.g. sessionid, page&gt;20, filter_*',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				urlFilterMode: ['advanced'],
+			},
+		},
+	},
+	{
+		displayName: 'Allowed File Extensions',
+		name: 'allowedExtensions',
+		type: 'string',
+		typeOptions: {
+			multipleValues: true,
+		},
+		default: [],
+		placeholder: 'html',
+		description: 'Only crawl URLs ending in one of these file extensions. URLs without an extension (e.g. /docs/intro) are always crawled.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				urlFilterMode: ['advanced'],
+			},
+		},
+	},
+	{
+		displayName: 'Allowed Content Types',
+		name: 'allowedContentTypes',
+		type: 'string',
+		typeOptions: {
+			multipleValues: true,
+		},
+		default: [],
+		placeholder: 'text/html',
+		description: 'Only store pages whose Content-Type response header is one of these, e.g. text/html or text/*. Other responses are stored as skipped.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				urlFilterMode: ['advanced'],
+			},
+		},
+	},
+	{
+		displayName: 'Remove Query Parameters',
+		name: 'removeQueryParams',
+		type: 'string',
+		typeOptions: {
+			multipleValues: true,
+		},
+		default: DEFAULT_REMOVED_QUERY_PARAMS,
+		placeholder: 'utm_*',
+		description: 'Query parameters removed from URLs before they are queued, so tracking and session variants of a page are crawled once. Use globs like utm_* or regular expressions in slashes like /^sess/i.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'Sort Query Parameters',
+		name: 'sortQueryParams',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to sort query parameters by name, so ?a=1&b=2 and ?b=2&a=1 are the same page',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'Trailing Slash',
+		name: 'trailingSlash',
+		type: 'options',
+		options: [
+			{
+				name: 'Keep As Is',
+				value: 'keep',
+			},
+			{
+				name: 'Remove',
+				value: 'remove',
+				description: '/docs/ becomes /docs',
+			},
+			{
+				name: 'Add',
+				value: 'add',
+				description: '/docs becomes /docs/, paths ending in a file name like /report.pdf are kept',
+			},
+		],
+		default: 'keep',
+		description: 'How trailing slashes of URL paths are normalized',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'Lowercase Paths',
+		name: 'lowercasePath',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to lowercase URL paths, for sites serving the same page under differently cased paths',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'Dedupe by Canonical URL',
+		name: 'dedupeByCanonical',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to skip pages whose &lt;link rel="canonical"&gt; points to another URL, and crawl the canonical URL instead. Duplicates are stored with status skipped.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'Respect Robots.txt',
+		name: 'respectRobotsTxt',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to fetch robots.txt of every crawled host (through ScrapeNinja), skip URLs disallowed for the user-agent below and apply its Crawl-delay (capped at 30 seconds)',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'Robots.txt User-Agent',
+		name: 'robotsUserAgent',
+		type: 'string',
+		default: '*',
+		placeholder: 'Googlebot',
+		description: 'User-agent token used to pick the robots.txt group. Groups for "*" apply when no group matches this token.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				respectRobotsTxt: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Check External Links',
+		name: 'checkExternalLinks',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to check every external link found on crawled pages with a single request, without crawling it. Status codes, redirect chains and timeouts are stored in the crawler_link_checks table, see the "Broken Link Report" of the Export Crawl Link Graph operation.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'Link Check Timeout (Seconds)',
+		name: 'linkCheckTimeout',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 10,
+		description: 'Timeout of a single link check request. Links which time out are reported as broken.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				checkExternalLinks: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Max Redirects',
+		name: 'maxRedirects',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 10,
+		description: 'Maximum number of redirects followed when checking a link. Longer redirect chains and redirect loops are reported as broken.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				checkExternalLinks: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Custom Extractor (JS)',
+		name: 'customExtractor',
+		type: 'string',
+		typeOptions: {
+			rows: 6,
+		},
+		default: '',
+		placeholder: `function extract(html, cheerio) {
+  const $ = cheerio.load(html);
+  return {
+    h1: $('h1').first().text().trim()
+  };
+}`,
+		description: 'Optional JS function run on every crawled page, same as in the "Extract Custom" operation. The returned object is stored in the extracted_json column of crawler_queue.',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'ScrapeNinja Extractor (JS)',
+		name: 'extractor',
+		type: 'string',
+		typeOptions: {
+			rows: 4,
+		},
+		default: '',
+		placeholder: `function extract(input, cheerio) {
+    let $ = cheerio.load(input);
+    return {
+        title: $('h1:first').text().trim()
+    };
+}`,
+		description: 'Optional JS function run by ScrapeNinja on every crawled page, see https://scrapeninja.net/docs/js-extractor/. Its result is stored in the extracted_json column of crawler_queue, unless a custom extractor is set as well.',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'Extract Primary Content',
+		name: 'extractPrimaryContent',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to extract the primary content of every crawled page (Readability) as Markdown into the content_markdown column of crawler_queue',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'Compare With Run ID',
+		name: 'previousRunId',
+		type: 'number',
+		default: 0,
+		description: 'ID of an earlier run of the same site. Every crawled page is marked as new, changed or unchanged (by content hash) relative to that run, and pages missing from this run are reported as removed. 0 disables change detection.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'Wait for Completion',
+		name: 'waitForCompletion',
+		type: 'boolean',
+		default: true,
+		description: 'Whether to block the workflow until the crawl finishes. When disabled, the node returns the run ID immediately and the crawl continues in the background of the n8n process (an n8n restart stops it, use "Resume Crawl" to continue).',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start', 'crawler-resume'],
+			},
+		},
+	},
+	{
+		displayName: 'Callback URL',
+		name: 'callbackUrl',
+		type: 'string',
+		default: '',
+		placeholder: 'https://my-n8n.example.com/webhook/crawler-finished',
+		description: 'Optional URL which receives a POST request with the run info and stats once the background crawl is completed, failed or canceled. The URL is stored with the run, so a later background resume calls it as well unless it sets another callback URL.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start', 'crawler-resume'],
+				waitForCompletion: [false],
+			},
+		},
+	},
+	{
+		displayName: 'Re-Set Crawler Tables',
+		name: 'resetTables',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to delete all crawler tables with the configured prefix and their data before starting. Not needed after upgrades, missing tables and columns are added automatically.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+			},
+		},
+	},
+	{
+		displayName: 'Output Mode',
+		name: 'outputMode',
+		type: 'options',
+		options: [
+			{
+				name: 'Single Item With All Results',
+				value: 'single',
+				description: 'One item containing run info, stats, all pages and logs',
+			},
+			{
+				name: 'One Item per Page',
+				value: 'perPage',
+				description: 'One item per completed page, so downstream nodes can process pages individually',
+			},
+		],
+		default: 'single',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start', 'crawler-resume', 'crawler-status'],
+			},
+		},
+	},
+	{
+		displayName: 'Page Content',
+		name: 'pageContent',
+		type: 'options',
+		options: [
+			{
+				name: 'None',
+				value: 'none',
+				description: 'Only page metadata (URL, depth, status code, title, final URL)',
+			},
+			{
+				name: 'HTML',
+				value: 'html',
+				description: 'Add raw HTML of the page',
+			},
+			{
+				name: 'Markdown',
+				value: 'markdown',
+				description: 'Add page HTML converted to Markdown',
+			},
+		],
+		default: 'none',
+		description: 'Content to include in each page item',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start', 'crawler-resume', 'crawler-status'],
+				outputMode: ['perPage'],
 			},
 		},
 	},
 	{
-		displayName: 'URL Exclusion Patterns',
-		name: 'excludePatterns',
-		type: 'string',
-		typeOptions: {
-			multipleValues: true,
-		},
-		default: [],
-		placeholder: '**.pdf',
-		description: 'Skip URLs matching these patterns. Examples:\n' +
-			'• **.pdf - skip all PDF files in any folder\n' +
-			'• **/admin/** - skip anything in admin folders\n' +
-			'• example.com/temp/* - skip files in temp folder\n' +
-			'• */draft-* - skip URLs containing draft- in the last segment',
+		displayName: 'Include Summary Item',
+		name: 'includeSummaryItem',
+		type: 'boolean',
+		default: true,
+		description: 'Whether to add a last item (type: summary) with run info and stats after the page items',
 		displayOptions: {
 			show: {
-				operation: ['crawler-start'],
+				operation: ['crawler-start', 'crawler-resume', 'crawler-status'],
+				outputMode: ['perPage'],
 			},
 		},
 	},
 	{
-		displayName: 'Re-Set Crawler Tables',
-		name: 'resetTables',
+		displayName: 'Include Detailed Stats',
+		name: 'includeDetailedStats',
 		type: 'boolean',
 		default: false,
-		description: 'Whether to reset (drop and recreate) all crawler-related tables before starting',
+		description: 'Whether to add a detailed report to the stats: pages per depth, host and status code, latency (average and p95), downloaded bytes, top errors and the most linked pages',
 		displayOptions: {
 			show: {
-				operation: ['crawler-start'],
+				operation: ['crawler-start', 'crawler-resume', 'crawler-status'],
 			},
 		},
 	},
 	{
-		displayName: 'WARNING: Only enable next parameter if crawling less than 30 pages as 1 HTML page can be as large as 10MB! A recommended way to get HTML is to use the dedicated Postgres node and get HTML from the crawler_queue table (status: completed, response_html column).',
+		displayName: 'WARNING: Only enable next parameter if crawling less than 30 pages as 1 HTML page can be as large as 10MB! A recommended way to get HTML is to use the Per Page output mode or to read it from the crawler_queue table (status: completed, response_html column).',
 		name: 'htmlWarning',
 		type: 'notice',
 		default: '',
 		displayOptions: {
 			show: {
-				operation: ['crawler-start'],
+				operation: ['crawler-start', 'crawler-resume', 'crawler-status'],
+				outputMode: ['single'],
 			},
 		},
 	},
@@ -174,7 +1164,8 @@ export const crawlerProperties: INodeProperties[] = [
 		default: false,
 		displayOptions: {
 			show: {
-				operation: ['crawler-start'],
+				operation: ['crawler-start', 'crawler-resume', 'crawler-status'],
+				outputMode: ['single'],
 			},
 		},
 	},
@@ -431,331 +1422,896 @@ export const crawlerProperties: INodeProperties[] = [
 			},
 		},
 	},
+	{
+		displayName: 'Dump Iframe',
+		name: 'dumpIframe',
+		type: 'string',
+		default: '',
+		description: 'Iframe name to dump. If provided, we wait for this iframe to appear in DOM.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				engine: ['scrape-js'],
+			},
+		},
+	},
+	{
+		displayName: 'Wait For Selector in Iframe',
+		name: 'waitForSelectorIframe',
+		type: 'string',
+		default: '',
+		description: 'CSS selector to wait for inside the iframe (if "dumpIframe" is set)',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				engine: ['scrape-js'],
+			},
+		},
+	},
+	{
+		displayName: 'Viewport Settings (JSON)',
+		name: 'viewport',
+		type: 'string',
+		typeOptions: {
+			rows: 4,
+		},
+		default: '',
+		placeholder: `{
+  "width": 1920,
+  "height": 1080
+}`,
+		description: 'Advanced. Set custom viewport size. By default, viewport size is 1920x1080. Provide a valid JSON object with viewport settings.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				engine: ['scrape-js'],
+			},
+		},
+	},
+	{
+		displayName: 'Extractor Target Iframe',
+		name: 'extractorTargetIframe',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to run the ScrapeNinja extractor on iframe HTML instead of the main page',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				engine: ['scrape-js'],
+			},
+		},
+	},
+	{
+		displayName: 'Screenshot',
+		name: 'screenshot',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to take a screenshot of every crawled page. It is stored base64 encoded in the screenshot column of crawler_queue and returned with the page content. Slower if true.',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				engine: ['scrape-js'],
+			},
+		},
+	},
+	{
+		displayName: 'Catch Ajax Headers URL Mask',
+		name: 'catchAjaxHeadersUrlMask',
+		type: 'string',
+		default: '',
+		description: 'If set, tries to catch/dump specific XHR requests/responses that match this mask',
+		displayOptions: {
+			show: {
+				operation: ['crawler-start'],
+				engine: ['scrape-js'],
+			},
+		},
+	},
 ];
 
-const createTablesSQL = `
--- Create crawler runs table
-CREATE TABLE IF NOT EXISTS crawler_runs (
-	id SERIAL PRIMARY KEY,
-	start_url TEXT NOT NULL,
-	status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'paused', 'completed', 'failed', 'canceled')),
-	max_depth INTEGER NOT NULL,
-	max_pages INTEGER NOT NULL,
-	concurrency INTEGER NOT NULL DEFAULT 1,
-	include_patterns TEXT[] DEFAULT '{}',
-	exclude_patterns TEXT[] DEFAULT '{}',
-	crawl_external BOOLEAN DEFAULT false,
-	settings JSONB NOT NULL,
-	created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-	updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-	completed_at TIMESTAMP WITH TIME ZONE
-);
-
--- Create crawler queue table
-CREATE TABLE IF NOT EXISTS crawler_queue (
-	id SERIAL PRIMARY KEY,
-	run_id INTEGER NOT NULL REFERENCES crawler_runs(id),
-	url TEXT NOT NULL,
-	status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'canceled')),
-	parent_url TEXT,
-	depth INTEGER NOT NULL DEFAULT 0,
-	error TEXT,
-	response_html TEXT,
-	response_status_code INTEGER,
-	response_final_url TEXT,
-	page_title VARCHAR(250),
-	created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-	updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-);
-
--- Create crawler logs table
-CREATE TABLE IF NOT EXISTS crawler_logs (
-	id SERIAL PRIMARY KEY,
-	run_id INTEGER NOT NULL REFERENCES crawler_runs(id),
-	level VARCHAR(10) NOT NULL,
-	message TEXT NOT NULL,
-	metadata JSONB,
-	created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-);
-
--- Create indexes
-CREATE INDEX IF NOT EXISTS idx_crawler_queue_run_id ON crawler_queue(run_id);
-CREATE INDEX IF NOT EXISTS idx_crawler_queue_status ON crawler_queue(status);
-CREATE INDEX IF NOT EXISTS idx_crawler_queue_url_dedup ON crawler_queue(run_id, url);
-CREATE INDEX IF NOT EXISTS idx_crawler_logs_run_id ON crawler_logs(run_id);
-CREATE INDEX IF NOT EXISTS idx_crawler_logs_created_at ON crawler_logs(created_at);
-`;
-
-const dropTablesSQL = `
-DROP TABLE IF EXISTS crawler_logs CASCADE;
-DROP TABLE IF EXISTS crawler_queue CASCADE;
-DROP TABLE IF EXISTS crawler_runs CASCADE;
-`;
+// A running run without any activity for this long has lost its crawler and may be resumed. Generous
+// enough for a slow page with all its retries.
+const STALE_RUN_MS = 10 * 60 * 1000;
+
+/**
+ * Collects start URLs from the "Start URL" parameter (a single URL, one URL per line, or an array
+ * coming from an expression) and "Additional Start URLs", without empty values and duplicates.
+ */
+function getStartUrls(startUrl: string | string[], additionalStartUrls: string[]): string[] {
+	const values = Array.isArray(startUrl) ? startUrl : String(startUrl ?? '').split(/\r?\n/);
+	const urls = [...values, ...additionalStartUrls]
+		.map((url) => String(url ?? '').trim())
+		.filter((url) => url !== '');
+
+	return Array.from(new Set(urls));
+}
+
+interface ICrawlerResultsOptions {
+	includeHtml: boolean;
+	// Maximum number of crawler_queue rows to return (0 means all rows)
+	pagesLimit?: number;
+	pagesOffset?: number;
+	// Only return logs of these levels (empty means all levels)
+	logLevels?: string[];
+	includeDetailedStats?: boolean;
+}
+
+interface ICrawlerRunStats {
+	total_pages: number;
+	pending_pages: number;
+	processing_pages: number;
+	completed_pages: number;
+	failed_pages: number;
+	canceled_pages: number;
+	skipped_pages: number;
+	duration_seconds: number;
+	// Only present for runs compared with a previous run
+	changes?: {
+		previous_run_id: number;
+		new_pages: number;
+		changed_pages: number;
+		unchanged_pages: number;
+		removed_pages: number;
+	};
+	// Only present when detailed stats are requested
+	details?: ICrawlerDetailedStats;
+}
+
+async function getCrawlerRunSummary(
+	storage: ICrawlerStorage,
+	runId: number,
+	includeDetailedStats: boolean = false,
+): Promise<{ run: any; stats: ICrawlerRunStats }> {
+	const run = await storage.getRun(runId);
+	if (!run) {
+		throw new Error(`Crawler run "${runId}" not found`);
+	}
+
+	// Unfinished runs report the duration so far
+	const durationSeconds = ((run.completed_at ?? new Date()).getTime() - run.created_at.getTime()) / 1000;
+	const counts = await storage.countItems(runId);
+
+	const runStats: ICrawlerRunStats = {
+		total_pages: counts.total,
+		pending_pages: counts.pending,
+		processing_pages: counts.processing,
+		completed_pages: counts.completed,
+		failed_pages: counts.failed,
+		canceled_pages: counts.canceled,
+		skipped_pages: counts.skipped,
+		duration_seconds: Math.round(durationSeconds),
+	};
+
+	if (run.previous_run_id) {
+		const changes = await storage.countChanges(runId, run.previous_run_id);
+
+		runStats.changes = {
+			previous_run_id: run.previous_run_id,
+			new_pages: changes.new,
+			changed_pages: changes.changed,
+			unchanged_pages: changes.unchanged,
+			removed_pages: changes.removed,
+		};
+	}
+
+	if (includeDetailedStats) {
+		runStats.details = computeCrawlerStats(await storage.getItemStats(runId));
+	}
+
+	return {
+		run: { ...run, duration_seconds: durationSeconds },
+		stats: runStats,
+	};
+}
 
 async function getCrawlerResults(
-	db: IDatabase<any>,
+	storage: ICrawlerStorage,
 	runId: number,
-	includeHtml: boolean,
+	options: ICrawlerResultsOptions,
 ): Promise<{
 	run: any;
-	stats: {
-		total_pages: number;
-		pending_pages: number;
-		completed_pages: number;
-		failed_pages: number;
-		canceled_pages: number;
-		duration_seconds: number;
+	stats: ICrawlerRunStats;
+	pagination: {
+		offset: number;
+		limit: number;
+		returned: number;
+		has_more: boolean;
 	};
 	pages: any[];
+	removed_pages?: any[];
 	logs: any[];
 }> {
-	// Get run information
-	const runInfo = await db.one(
-		'SELECT *, EXTRACT(EPOCH FROM (completed_at - created_at)) as duration_seconds FROM crawler_runs WHERE id = $1',
-		[runId],
-	);
+	const { includeHtml, pagesLimit = 0, pagesOffset = 0, logLevels = [], includeDetailedStats = false } = options;
 
-	// Get all logs for the run, ordered by creation time
-	const logs = await db.manyOrNone(
-		'SELECT level, message, metadata, created_at FROM crawler_logs WHERE run_id = $1 ORDER BY id ASC',
-		[runId],
-	);
+	const { run, stats } = await getCrawlerRunSummary(storage, runId, includeDetailedStats);
 
-	// Get all completed pages (excluding HTML if not requested)
-	const pagesQuery = includeHtml
-		? `SELECT * FROM crawler_queue WHERE run_id = $1`
-		: `SELECT id, run_id, url, status, parent_url, depth, error, response_status_code, response_final_url, created_at, updated_at 
-		   FROM crawler_queue WHERE run_id = $1`;
-
-	const pages = await db.manyOrNone(pagesQuery, [runId]);
-
-	// Get statistics
-	const stats = await db.one<{ total: string, pending: string, completed: string, failed: string, canceled: string }>(
-		`SELECT 
-			COUNT(*) as total,
-			COUNT(*) FILTER (WHERE status = 'pending') as pending,
-			COUNT(*) FILTER (WHERE status = 'completed') as completed,
-			COUNT(*) FILTER (WHERE status = 'failed') as failed,
-			COUNT(*) FILTER (WHERE status = 'canceled') as canceled
-		FROM crawler_queue 
-		WHERE run_id = $1`,
-		[runId],
-	);
+	// Get logs for the run, ordered by creation time
+	const logs = (await storage.getLogs(runId, logLevels)).map(({ level, message, metadata, created_at }) => ({
+		level,
+		message,
+		metadata,
+		created_at,
+	}));
+
+	// Get pages (excluding HTML if not requested)
+	const pages = await storage.getItems(runId, { includeHtml, limit: pagesLimit, offset: pagesOffset });
+
+	const removedPages = run.previous_run_id
+		? await storage.getRemovedPages(runId, run.previous_run_id)
+		: undefined;
 
 	return {
-		run: runInfo,
-		stats: {
-			total_pages: parseInt(stats.total),
-			pending_pages: parseInt(stats.pending),
-			completed_pages: parseInt(stats.completed),
-			failed_pages: parseInt(stats.failed),
-			canceled_pages: parseInt(stats.canceled),
-			duration_seconds: Math.round(runInfo.duration_seconds || 0),
+		run,
+		stats,
+		pagination: {
+			offset: pagesOffset,
+			limit: pagesLimit,
+			returned: pages.length,
+			has_more: pagesOffset + pages.length < stats.total_pages,
 		},
 		pages,
+		removed_pages: removedPages,
 		logs,
 	};
 }
 
-async function waitForCrawlerToFinish(db: IDatabase<any>, runId: number): Promise<void> {
-	await new Promise<void>((resolve) => {
-		const checkInterval = setInterval(async () => {
-			const status = await db.oneOrNone<{ status: string }>(
-				'SELECT status FROM crawler_runs WHERE id = $1',
-				[runId],
-			);
+async function getCrawlerPageItems(
+	storage: ICrawlerStorage,
+	runId: number,
+	pageContent: 'none' | 'html' | 'markdown',
+	pagesLimit: number = 0,
+	pagesOffset: number = 0,
+): Promise<INodeExecutionData[]> {
+	// Only completed pages become items, HTML is loaded only when it is needed for the output
+	const pages = await storage.getItems(runId, {
+		status: 'completed',
+		includeHtml: pageContent !== 'none',
+		limit: pagesLimit,
+		offset: pagesOffset,
+	});
+
+	return pages.map((page) => {
+		const json: IDataObject = {
+			type: 'page',
+			run_id: page.run_id,
+			queue_id: page.id,
+			url: page.url,
+			parent_url: page.parent_url,
+			depth: page.depth,
+			status_code: page.response_status_code,
+			final_url: page.response_final_url,
+			title: page.page_title,
+			content_hash: page.content_hash,
+			crawled_at: page.updated_at,
+		};
+
+		if (page.change_status !== null) {
+			json.change_status = page.change_status;
+		}
+
+		// Results of per-page extraction are only present when it was enabled for the run
+		if (page.extracted_json !== null) {
+			json.extracted = page.extracted_json;
+		}
+		if (page.content_markdown !== null) {
+			json.content_markdown = page.content_markdown;
+		}
+
+		if (pageContent === 'html') {
+			json.html = page.response_html;
+		} else if (pageContent === 'markdown') {
+			json.markdown = NodeHtmlMarkdown.translate(page.response_html || '');
+		}
+
+		if (page.screenshot) {
+			json.screenshot = page.screenshot;
+		}
+
+		return { json };
+	});
+}
+
+/**
+ * Builds node output for a run according to the "Output Mode" parameter:
+ * either one item with all results or one item per completed page plus an optional summary item.
+ */
+async function buildCrawlerOutput(
+	this: IExecuteFunctions,
+	storage: ICrawlerStorage,
+	runId: number,
+	itemIndex: number,
+	options: Omit<ICrawlerResultsOptions, 'includeHtml'> = {},
+): Promise<INodeExecutionData[]> {
+	const outputMode = this.getNodeParameter('outputMode', itemIndex, 'single') as string;
+	const includeDetailedStats = this.getNodeParameter('includeDetailedStats', itemIndex, false) as boolean;
+
+	if (outputMode === 'perPage') {
+		const pageContent = this.getNodeParameter('pageContent', itemIndex, 'none') as 'none' | 'html' | 'markdown';
+		const includeSummary = this.getNodeParameter('includeSummaryItem', itemIndex, true) as boolean;
+
+		const pageItems = await getCrawlerPageItems(storage, runId, pageContent, options.pagesLimit, options.pagesOffset);
+
+		if (includeSummary) {
+			const { run, stats } = await getCrawlerRunSummary(storage, runId, includeDetailedStats);
+			pageItems.push({
+				json: {
+					type: 'summary',
+					run,
+					stats,
+				},
+			});
+		}
+
+		return pageItems;
+	}
+
+	const includeHtml = this.getNodeParameter('includeHtml', itemIndex, false) as boolean;
+	const results = await getCrawlerResults(storage, runId, { includeHtml, includeDetailedStats, ...options });
+	return [{ json: results }];
+}
+
+// Storage errors are thrown to the caller instead of being lost in a timer callback
+async function waitForCrawlerToFinish(storage: ICrawlerStorage, runId: number): Promise<void> {
+	while (true) {
+		await new Promise((resolve) => setTimeout(resolve, 1000));
+		const run = await storage.getRun(runId);
+
+		if (run && ['completed', 'failed', 'canceled'].includes(run.status)) {
+			// Set completed_at when the run finishes
+			if (!run.completed_at) {
+				await storage.updateRun(runId, { completed_at: new Date() });
+			}
+			return;
+		}
+
+		// A paused run is not finished, it keeps completed_at empty until resumed
+		if (run?.status === 'paused') {
+			return;
+		}
+	}
+}
 
-			if (status && ['completed', 'failed', 'canceled'].includes(status.status)) {
-				// Set completed_at when the run finishes
-				await db.none(
-					'UPDATE crawler_runs SET completed_at = CURRENT_TIMESTAMP WHERE id = $1 AND completed_at IS NULL',
-					[runId],
+async function runCrawler(
+	this: IExecuteFunctions,
+	storage: ICrawlerStorage,
+	run: ICrawlerRun,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	// Pass all options to processCrawlerQueue
+	await processCrawlerQueue.call(
+		this,
+		storage,
+		run.id,
+		run.max_depth,
+		run.max_pages,
+		run.include_patterns,
+		run.exclude_patterns,
+		run.crawl_external,
+		run.settings,
+		run.options || {},
+		run.concurrency,
+	);
+
+	// Wait for crawler to finish
+	await waitForCrawlerToFinish(storage, run.id);
+
+	// Get complete run information
+	return buildCrawlerOutput.call(this, storage, run.id, itemIndex);
+}
+
+/**
+ * Execute context for a crawl which goes on after execute() has returned. n8n doesn't keep the
+ * execution alive for it, so the node and the credentials are resolved upfront and ScrapeNinja
+ * requests are signed by the credential type itself. Only covers what the crawler uses: getNode,
+ * getCredentials, logger, helpers.httpRequest and helpers.httpRequestWithAuthentication.
+ */
+async function createBackgroundContext(this: IExecuteFunctions): Promise<IExecuteFunctions> {
+	const node = this.getNode();
+	const credentials = await this.getCredentials('scrapeNinjaApi');
+	const credentialType = new ScrapeNinjaApi();
+	const { helpers, logger } = this;
+
+	const context = {
+		getNode: () => node,
+		getCredentials: async () => credentials,
+		logger,
+		helpers: {
+			// Plain requests don't depend on the execution
+			httpRequest: helpers.httpRequest,
+			httpRequestWithAuthentication: async (_credentialsType: string, requestOptions: IHttpRequestOptions) =>
+				await helpers.httpRequest(await credentialType.authenticate(credentials, { ...requestOptions })),
+		},
+	};
+
+	return context as unknown as IExecuteFunctions;
+}
+
+async function startCrawlerInBackground(
+	this: IExecuteFunctions,
+	storage: ICrawlerStorage,
+	run: ICrawlerRun,
+	callbackUrl: string,
+): Promise<void> {
+	const context = await createBackgroundContext.call(this);
+
+	const crawl = async () => {
+		try {
+			try {
+				await processCrawlerQueue.call(
+					context,
+					storage,
+					run.id,
+					run.max_depth,
+					run.max_pages,
+					run.include_patterns,
+					run.exclude_patterns,
+					run.crawl_external,
+					run.settings,
+					run.options || {},
+					run.concurrency,
 				);
-				clearInterval(checkInterval);
-				resolve();
+			} catch (error) {
+				// processCrawlerQueue already updated the run status, the callback still has to fire
+				context.logger.error('Background crawler run stopped with error', { runId: run.id, error: error.message });
 			}
-		}, 1000);
-	});
+
+			await waitForCrawlerToFinish(storage, run.id);
+
+			const { run: runInfo, stats } = callbackUrl
+				? await getCrawlerRunSummary(storage, run.id)
+				: { run: null, stats: null };
+
+			// A paused run is not finished yet, the callback fires once it is resumed in the background and done
+			if (runInfo && runInfo.status !== 'paused') {
+				try {
+					await context.helpers.httpRequest({
+						method: 'POST',
+						url: callbackUrl,
+						body: {
+							event: 'crawler.finished',
+							run: runInfo,
+							stats,
+						},
+						json: true,
+					});
+					await logToCrawler.call(context, storage, run.id, 'info', `Sent completion callback to "${callbackUrl}"`, { status: runInfo.status });
+				} catch (error) {
+					await logToCrawler.call(context, storage, run.id, 'error', `Failed to send completion callback to "${callbackUrl}"`, { error: error.message });
+				}
+			}
+		} catch (error) {
+			context.logger.error('Error in background crawler run', { runId: run.id, error: error.message, stack: error.stack });
+		} finally {
+			context.logger.debug('Closing crawler storage of background crawler run', { runId: run.id });
+			await storage.close();
+		}
+	};
+
+	void crawl();
 }
 
 export async function executeCrawler(
 	this: IExecuteFunctions,
 	items: INodeExecutionData[],
 	itemIndex: number,
-): Promise<INodeExecutionData> {
+): Promise<INodeExecutionData[]> {
 	const operation = this.getNodeParameter('operation', itemIndex) as string;
-	const credentials = await this.getCredentials('postgres');
 
 	this.logger.info('Initializing crawler node', { operation });
 
-	const pgp = pgPromise();
-	const db = pgp({
-		host: credentials.host as string,
-		port: credentials.port as number,
-		user: credentials.user as string,
-		password: credentials.password as string,
-		database: credentials.database as string,
-		ssl: !!(credentials.ssl as boolean),
-	});
+	const storage = await getCrawlerStorage.call(this, itemIndex);
 
 	try {
-		this.logger.debug('Creating database tables if they don\'t exist');
-		// Create tables if they don't exist
-		await db.none(`
-			CREATE TABLE IF NOT EXISTS crawler_runs (
-				id SERIAL PRIMARY KEY,
-				start_url TEXT NOT NULL,
-				status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'paused', 'completed', 'failed', 'canceled')),
-				max_depth INTEGER NOT NULL,
-				max_pages INTEGER NOT NULL,
-				concurrency INTEGER NOT NULL DEFAULT 1,
-				include_patterns TEXT[] DEFAULT '{}',
-				exclude_patterns TEXT[] DEFAULT '{}',
-				crawl_external BOOLEAN DEFAULT false,
-				settings JSONB NOT NULL,
-				created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-				updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-				completed_at TIMESTAMP WITH TIME ZONE
-			);
-
-			CREATE TABLE IF NOT EXISTS crawler_queue (
-				id SERIAL PRIMARY KEY,
-				run_id INTEGER REFERENCES crawler_runs(id),
-				url TEXT NOT NULL,
-				status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'canceled')),
-				parent_url TEXT,
-				depth INTEGER NOT NULL DEFAULT 0,
-				created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-				updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-				error TEXT
-			);
-
-			CREATE INDEX IF NOT EXISTS idx_crawler_queue_status ON crawler_queue(status);
-			CREATE INDEX IF NOT EXISTS idx_crawler_queue_run_id ON crawler_queue(run_id);
-		`);
+		const appliedMigrations = await storage.migrate();
+		if (appliedMigrations.length > 0) {
+			this.logger.info('Applied crawler schema migrations', { migrations: appliedMigrations });
+		}
 
-		let result: INodeExecutionData;
+		let result: INodeExecutionData[];
+		let runsInBackground = false;
 
 		if (operation === 'crawler-start') {
-			const resetTables = this.getNodeParameter('resetTables', itemIndex, false) as boolean;
-			const startUrl = this.getNodeParameter('startUrl', itemIndex) as string;
+			const startUrls = getStartUrls(
+				this.getNodeParameter('startUrl', itemIndex) as string | string[],
+				this.getNodeParameter('additionalStartUrls', itemIndex, []) as string[],
+			);
+			if (startUrls.length === 0) {
+				throw new NodeOperationError(this.getNode(), 'At least one start URL is required', { itemIndex });
+			}
+			const invalidStartUrl = startUrls.find((url) => {
+				try {
+					new URL(url);
+					return false;
+				} catch {
+					return true;
+				}
+			});
+			if (invalidStartUrl) {
+				throw new NodeOperationError(this.getNode(), `Invalid start URL "${invalidStartUrl}"`, { itemIndex });
+			}
+			const startUrl = startUrls[0];
 			const maxDepth = this.getNodeParameter('maxDepth', itemIndex) as number;
 			const maxPages = this.getNodeParameter('maxPages', itemIndex) as number;
 			const includePatterns = this.getNodeParameter('includePatterns', itemIndex) as string[];
 			const excludePatterns = this.getNodeParameter('excludePatterns', itemIndex) as string[];
 			const crawlExternal = this.getNodeParameter('crawlExternal', itemIndex, false) as boolean;
+			const seedMode = this.getNodeParameter('seedMode', itemIndex, 'startUrl') as string;
+			const previousRunId = this.getNodeParameter('previousRunId', itemIndex, 0) as number;
 
 			// Get scraping options
-			const engine = this.getNodeParameter('engine', itemIndex) as string;
-			const headers = this.getNodeParameter('headers', itemIndex, []) as string[];
-			const retryNum = this.getNodeParameter('retryNum', itemIndex, 1) as number;
-			const geo = this.getNodeParameter('geo', itemIndex, 'us') as string;
-			const proxy = geo === '_custom' ? this.getNodeParameter('proxy', itemIndex, '') as string : undefined;
-			const textNotExpected = this.getNodeParameter('textNotExpected', itemIndex, []) as string[];
-			const statusNotExpected = this.getNodeParameter('statusNotExpected', itemIndex, []) as number[];
-
-			// Engine-specific options
-			const followRedirects = engine === 'scrape' ? this.getNodeParameter('followRedirects', itemIndex, true) as boolean : undefined;
-			const timeout = engine === 'scrape' ? this.getNodeParameter('timeout', itemIndex, 10) as number : undefined;
-			const timeoutJs = engine === 'scrape-js' ? this.getNodeParameter('timeoutJs', itemIndex, 16) as number : undefined;
-			const waitForSelector = engine === 'scrape-js' ? this.getNodeParameter('waitForSelector', itemIndex, '') as string : undefined;
-			const blockImages = engine === 'scrape-js' ? this.getNodeParameter('blockImages', itemIndex, false) as boolean : undefined;
-			const blockMedia = engine === 'scrape-js' ? this.getNodeParameter('blockMedia', itemIndex, false) as boolean : undefined;
-			const postWaitTime = engine === 'scrape-js' ? this.getNodeParameter('postWaitTime', itemIndex, 0) as number : undefined;
+			const engine = this.getNodeParameter('engine', itemIndex) as IScrapeSettings['engine'];
+			const settings = getScrapeSettings.call(this, itemIndex, engine);
 
 			const concurrency = this.getNodeParameter('concurrency', itemIndex, 1) as number;
 
-			if (resetTables) {
-				// Drop all tables and their dependencies
-				await db.none(dropTablesSQL);
+			const options: ICrawlerOptions = {
+				respectRobotsTxt: this.getNodeParameter('respectRobotsTxt', itemIndex, false) as boolean,
+				robotsUserAgent: this.getNodeParameter('robotsUserAgent', itemIndex, '*') as string,
+				customExtractor: (this.getNodeParameter('customExtractor', itemIndex, '') as string).trim() || undefined,
+				extractPrimaryContent: this.getNodeParameter('extractPrimaryContent', itemIndex, false) as boolean,
+				minDelayMs: this.getNodeParameter('minDelayMs', itemIndex, 0) as number,
+				maxRequestsPerMinute: this.getNodeParameter('maxRequestsPerMinute', itemIndex, 0) as number,
+				jitterMs: this.getNodeParameter('jitterMs', itemIndex, 0) as number,
+				maxRetries: this.getNodeParameter('maxRetries', itemIndex, 0) as number,
+				retryBackoffMs: this.getNodeParameter('retryBackoffMs', itemIndex, 5000) as number,
+				failurePolicy: this.getNodeParameter('failurePolicy', itemIndex, 'count') as CrawlerFailurePolicy,
+				maxFailures: this.getNodeParameter('maxFailures', itemIndex, 10) as number,
+				maxFailurePercentage: this.getNodeParameter('maxFailurePercentage', itemIndex, 20) as number,
+				removeQueryParams: this.getNodeParameter('removeQueryParams', itemIndex, []) as string[],
+				sortQueryParams: this.getNodeParameter('sortQueryParams', itemIndex, false) as boolean,
+				trailingSlash: this.getNodeParameter('trailingSlash', itemIndex, 'keep') as ICrawlerOptions['trailingSlash'],
+				lowercasePath: this.getNodeParameter('lowercasePath', itemIndex, false) as boolean,
+				dedupeByCanonical: this.getNodeParameter('dedupeByCanonical', itemIndex, false) as boolean,
+				urlFilterMode: this.getNodeParameter('urlFilterMode', itemIndex, 'glob') as ICrawlerOptions['urlFilterMode'],
+				linkSources: this.getNodeParameter('linkSources', itemIndex, ['anchors']) as LinkSource[],
+				customLinkSelectors: (this.getNodeParameter('customLinkSelectors', itemIndex, {}) as { selectors?: ILinkSelector[] })
+					.selectors?.map(({ selector, attribute }) => ({ selector: selector.trim(), attribute: attribute.trim() })) ?? [],
+				checkExternalLinks: this.getNodeParameter('checkExternalLinks', itemIndex, false) as boolean,
+			};
+
+			const waitForCompletion = this.getNodeParameter('waitForCompletion', itemIndex, true) as boolean;
+			const callbackUrl = waitForCompletion ? '' : this.getNodeParameter('callbackUrl', itemIndex, '') as string;
+			if (callbackUrl) {
+				options.callbackUrl = callbackUrl;
+			}
+
+			if (options.checkExternalLinks) {
+				options.linkCheckTimeout = this.getNodeParameter('linkCheckTimeout', itemIndex, 10) as number;
+				options.maxRedirects = this.getNodeParameter('maxRedirects', itemIndex, 10) as number;
+			}
+
+			if (options.urlFilterMode === 'advanced') {
+				Object.assign(options, {
+					includeRegex: this.getNodeParameter('includeRegex', itemIndex, []) as string[],
+					excludeRegex: this.getNodeParameter('excludeRegex', itemIndex, []) as string[],
+					maxPathDepth: this.getNodeParameter('maxPathDepth', itemIndex, 0) as number,
+					allowedQueryParams: this.getNodeParameter('allowedQueryParams', itemIndex, []) as string[],
+					deniedQueryParams: this.getNodeParameter('deniedQueryParams', itemIndex, []) as string[],
+					allowedExtensions: this.getNodeParameter('allowedExtensions', itemIndex, []) as string[],
+					allowedContentTypes: this.getNodeParameter('allowedContentTypes', itemIndex, []) as string[],
+				});
+
+				try {
+					createUrlFilter(includePatterns, excludePatterns, options);
+				} catch (error) {
+					throw new NodeOperationError(this.getNode(), `Invalid URL filter regex: ${error.message}`, { itemIndex });
+				}
 			}
 
-			// Create tables (if they don't exist)
-			await db.none(createTablesSQL);
+			let normalizeUrl: (url: string) => string;
+			try {
+				normalizeUrl = createUrlNormalizer(options);
+			} catch (error) {
+				throw new NodeOperationError(this.getNode(), `Invalid query parameter pattern: ${error.message}`, { itemIndex });
+			}
+
+			try {
+				validateLinkSelectors(options.customLinkSelectors ?? []);
+			} catch (error) {
+				throw new NodeOperationError(this.getNode(), `Invalid CSS selector in "Custom Link Selectors" ${error.message}`, { itemIndex });
+			}
+
+			if (this.getNodeParameter('resetTables', itemIndex, false) as boolean) {
+				// Drop all tables and their dependencies, then create them again
+				await storage.dropTables();
+				await storage.migrate();
+			}
+
+			if (previousRunId > 0) {
+				const previousRun = await storage.getRun(previousRunId);
+				if (!previousRun) {
+					const message = this.getNodeParameter('storageBackend', itemIndex, 'postgres') === 'memory'
+						? `Previous crawler run "${previousRunId}" not found. The memory storage only keeps the 10 most recent finished runs of this n8n process, use SQLite or Postgres storage to compare with older runs.`
+						: `Previous crawler run "${previousRunId}" not found`;
+					throw new NodeOperationError(this.getNode(), message, { itemIndex });
+				}
+			}
 
-			this.logger.info('Starting new crawler run', { startUrl, maxDepth, maxPages });
+			this.logger.info('Starting new crawler run', { startUrls, maxDepth, maxPages });
 
 			// Create new crawl run with all options
-			const run = await db.tx<ICrawlerRun>(async (t: ITask<any>) => {
-				const settings = {
-					engine,
-					headers,
-					retryNum,
-					geo,
-					proxy,
-					textNotExpected,
-					statusNotExpected,
-					followRedirects,
-					timeout,
-					timeoutJs,
-					waitForSelector,
-					blockImages,
-					blockMedia,
-					postWaitTime,
-				};
-
-				const runResult = await t.one<ICrawlerRun>(
-					`INSERT INTO crawler_runs (
-						start_url, status, max_depth, max_pages, 
-						concurrency, include_patterns, exclude_patterns, crawl_external,
-						settings
-					) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING *`,
-					[
-						startUrl, 'running', maxDepth, maxPages,
-						concurrency, includePatterns, excludePatterns, crawlExternal,
-						settings,
-					],
-				);
+			const run = await storage.createRun(
+				{
+					start_url: startUrl,
+					start_urls: startUrls,
+					max_depth: maxDepth,
+					max_pages: maxPages,
+					concurrency,
+					include_patterns: includePatterns,
+					exclude_patterns: excludePatterns,
+					crawl_external: crawlExternal,
+					settings,
+					options,
+					previous_run_id: previousRunId > 0 ? previousRunId : null,
+				},
+				Array.from(new Set(startUrls.map(normalizeUrl))).map((url) => ({ url, parent_url: null, depth: 0 })),
+			);
+
+			this.logger.debug('Created new crawler run', { 
+				runId: run.id, 
+				startUrls,
+				maxDepth,
+				maxPages,
+				includePatterns,
+				excludePatterns,
+				crawlExternal,
+				settings,
+				options,
+			});
 
-				this.logger.debug('Created new crawler run', { 
-					runId: runResult.id, 
-					startUrl,
-					maxDepth,
-					maxPages,
+			if (seedMode === 'startUrlAndSitemap') {
+				await seedQueueFromSitemaps.call(this, storage, run.id, startUrls, run.settings, {
+					sitemapUrls: this.getNodeParameter('sitemapUrls', itemIndex, []) as string[],
+					useRobotsTxtSitemaps: this.getNodeParameter('useRobotsTxtSitemaps', itemIndex, true) as boolean,
+					robotsUserAgent: options.robotsUserAgent || '*',
+					storeLastmod: this.getNodeParameter('storeLastmod', itemIndex, false) as boolean,
 					includePatterns,
 					excludePatterns,
 					crawlExternal,
-					settings,
+					normalizeUrl,
+					filterOptions: options,
 				});
+			}
+
+			if (waitForCompletion) {
+				result = await runCrawler.call(this, storage, run, itemIndex);
+			} else {
+				await startCrawlerInBackground.call(this, storage, run, callbackUrl);
+				runsInBackground = true;
+				result = [{
+					json: {
+						run_id: run.id,
+						status: run.status,
+						message: 'Crawler is running in the background. Use the "Get Crawl Status and Results" operation to poll its progress.',
+						run,
+					},
+				}];
+			}
+		} else if (operation === 'crawler-resume') {
+			const runId = this.getNodeParameter('runId', itemIndex) as number;
+			const resumeMaxPages = this.getNodeParameter('resumeMaxPages', itemIndex, 0) as number;
+
+			const existingRun = await storage.getRun(runId);
+
+			if (!existingRun) {
+				throw new NodeOperationError(this.getNode(), `Crawler run "${runId}" not found`, { itemIndex });
+			}
+
+			if (existingRun.status === 'completed') {
+				throw new NodeOperationError(this.getNode(), `Crawler run "${runId}" is already completed, nothing to resume`, { itemIndex });
+			}
+
+			// A running run is only resumed when its crawler is gone, e.g. after an n8n restart
+			if (existingRun.status === 'running') {
+				const lastItemUpdate = await storage.getLastItemUpdate(runId);
+				const lastActivity = Math.max(existingRun.updated_at.getTime(), lastItemUpdate?.getTime() ?? 0);
+				if (Date.now() - lastActivity < STALE_RUN_MS) {
+					throw new NodeOperationError(
+						this.getNode(),
+						`Crawler run "${runId}" is still running, it can be resumed once it has shown no activity for ${STALE_RUN_MS / 60000} minutes`,
+						{ itemIndex },
+					);
+				}
+			}
+
+			// Only resume when the status was not changed by another execution meanwhile
+			const run = await storage.updateRun(
+				runId,
+				{
+					status: 'running',
+					max_pages: resumeMaxPages > 0 ? resumeMaxPages : existingRun.max_pages,
+					completed_at: null,
+				},
+				[existingRun.status],
+			);
+
+			if (!run) {
+				throw new NodeOperationError(this.getNode(), `Crawler run "${runId}" was changed by another execution, try again`, { itemIndex });
+			}
+
+			// Put interrupted items back into the queue, skipped items (robots.txt, content type, duplicates) stay skipped
+			const requeued = await storage.updateItems(runId, ['canceled', 'processing'], { status: 'pending', error: null });
+
+			this.logger.info('Resuming crawler run', {
+				runId,
+				previousStatus: existingRun.status,
+				requeuedItems: requeued,
+				maxPages: run.max_pages,
+			});
+
+			await storage.log(runId, 'info', `Resuming crawler run "${runId}" (previous status: ${existingRun.status})`, {
+				requeued_items: requeued,
+				max_pages: run.max_pages,
+			});
+
+			if (this.getNodeParameter('waitForCompletion', itemIndex, true) as boolean) {
+				result = await runCrawler.call(this, storage, run, itemIndex);
+			} else {
+				// Runs started in the background keep their callback URL, e.g. when resumed after an n8n restart.
+				// A new callback URL replaces the stored one, so a later resume calls it as well.
+				let callbackUrl = run.options?.callbackUrl || '';
+				const newCallbackUrl = this.getNodeParameter('callbackUrl', itemIndex, '') as string;
+				if (newCallbackUrl && newCallbackUrl !== callbackUrl) {
+					await storage.updateRun(run.id, { options: { ...run.options, callbackUrl: newCallbackUrl } });
+					callbackUrl = newCallbackUrl;
+				}
+				await startCrawlerInBackground.call(this, storage, run, callbackUrl);
+				runsInBackground = true;
+				result = [{
+					json: {
+						run_id: run.id,
+						status: run.status,
+						message: 'Crawler is running in the background. Use the "Get Crawl Status and Results" operation to poll its progress.',
+						run,
+					},
+				}];
+			}
+		} else if (operation === 'crawler-status') {
+			const runId = this.getNodeParameter('runId', itemIndex) as number;
+			const pagesLimit = this.getNodeParameter('pagesLimit', itemIndex, 100) as number;
+			const pagesOffset = this.getNodeParameter('pagesOffset', itemIndex, 0) as number;
+			const logLevels = this.getNodeParameter('logLevels', itemIndex, []) as string[];
+
+			const existingRun = await storage.getRun(runId);
+
+			if (!existingRun) {
+				throw new NodeOperationError(this.getNode(), `Crawler run "${runId}" not found`, { itemIndex });
+			}
+
+			result = await buildCrawlerOutput.call(this, storage, runId, itemIndex, {
+				pagesLimit,
+				pagesOffset,
+				logLevels,
+			});
+		} else if (operation === 'crawler-links') {
+			const runId = this.getNodeParameter('runId', itemIndex) as number;
+			const linkReport = this.getNodeParameter('linkReport', itemIndex, 'links') as string;
+
+			if (!(await storage.getRun(runId))) {
+				throw new NodeOperationError(this.getNode(), `Crawler run "${runId}" not found`, { itemIndex });
+			}
 
-				await t.none(
-					'INSERT INTO crawler_queue (run_id, url, status, parent_url, depth) VALUES ($1, $2, $3, $4, $5)',
-					[runResult.id, startUrl, 'pending', null, 0],
+			let rows: IDataObject[];
+			if (linkReport === 'orphanPages') {
+				rows = await storage.getOrphanPages(runId);
+			} else if (linkReport === 'brokenLinks') {
+				rows = (await storage.getBrokenLinks(runId)).map((link) => ({
+					from_url: link.from_url,
+					to_url: link.to_url,
+					anchor_text: link.anchor_text,
+					nofollow: link.nofollow,
+					status: link.status,
+					response_status_code: link.response_status_code,
+					error: link.error,
+				}));
+			} else if (linkReport === 'brokenLinkReport') {
+				const report = buildBrokenLinkReport(
+					await storage.getBrokenLinks(runId),
+					await storage.getBrokenExternalLinks(runId),
+				);
+				rows = report.map((page) => ({
+					page_url: page.page_url,
+					broken_links_count: page.broken_links_count,
+					broken_links: page.broken_links.map((link) => ({
+						url: link.url,
+						anchor_text: link.anchor_text,
+						nofollow: link.nofollow,
+						external: link.external,
+						problem: link.problem,
+						status_code: link.status_code,
+						final_url: link.final_url,
+						redirect_chain: [...link.redirect_chain],
+						error: link.error,
+					})),
+				}));
+			} else {
+				const links = await storage.getLinks(
+					runId,
+					this.getNodeParameter('linksLimit', itemIndex, 1000) as number,
+					this.getNodeParameter('linksOffset', itemIndex, 0) as number,
 				);
+				rows = links.map((link) => ({
+					id: link.id,
+					from_url: link.from_url,
+					to_url: link.to_url,
+					anchor_text: link.anchor_text,
+					rel: link.rel,
+					nofollow: link.nofollow,
+					created_at: link.created_at.toISOString(),
+				}));
+			}
+
+			result = rows.map((row) => ({ json: { run_id: runId, ...row } }));
+		} else if (operation === 'crawler-cancel') {
+			const runId = this.getNodeParameter('runId', itemIndex) as number;
+
+			const existingRun = await storage.getRun(runId);
+
+			if (!existingRun) {
+				throw new NodeOperationError(this.getNode(), `Crawler run "${runId}" not found`, { itemIndex });
+			}
+
+			if (['completed', 'failed', 'canceled'].includes(existingRun.status)) {
+				throw new NodeOperationError(this.getNode(), `Crawler run "${runId}" is already finished (status: ${existingRun.status})`, { itemIndex });
+			}
 
-				return runResult;
+			const canceledItems = await cancelRemainingItems(storage, runId, 'Canceled by user');
+			const canceledRun = await storage.updateRun(runId, { completed_at: new Date() }) as ICrawlerRun;
+			await logToCrawler.call(this, storage, runId, 'info', `Crawler run "${runId}" canceled by user`, {
+				previous_status: existingRun.status,
+				canceled_items: canceledItems,
 			});
 
-			// Pass all options to processCrawlerQueue
-			await processCrawlerQueue.call(
-				this,
-				db,
-				run.id,
-				run.max_depth,
-				run.max_pages,
-				run.include_patterns,
-				run.exclude_patterns,
-				run.crawl_external,
-				run.settings,
-			);
+			result = [{
+				json: {
+					run_id: runId,
+					status: canceledRun.status,
+					previous_status: existingRun.status,
+					canceled_items: canceledItems,
+					run: canceledRun,
+				},
+			}];
+		} else if (operation === 'crawler-pause') {
+			const runId = this.getNodeParameter('runId', itemIndex) as number;
+
+			const pausedRun = await storage.updateRun(runId, { status: 'paused' }, ['pending', 'running']);
+
+			if (!pausedRun) {
+				const existingRun = await storage.getRun(runId);
+				throw new NodeOperationError(
+					this.getNode(),
+					existingRun
+						? `Crawler run "${runId}" is not running (status: ${existingRun.status})`
+						: `Crawler run "${runId}" not found`,
+					{ itemIndex },
+				);
+			}
 
-			// Wait for crawler to finish
-			await waitForCrawlerToFinish(db, run.id);
+			// Pending items stay in the queue; workers stop picking them up and "Resume Crawl" continues the run
+			await logToCrawler.call(this, storage, runId, 'info', `Crawler run "${runId}" paused by user`, {});
 
-			// Get complete run information
-			const includeHtml = this.getNodeParameter('includeHtml', itemIndex, false) as boolean;
-			const results = await getCrawlerResults(db, run.id, includeHtml);
-			result = { json: results };
+			result = [{
+				json: {
+					run_id: runId,
+					status: pausedRun.status,
+					run: pausedRun,
+				},
+			}];
 		} else {
 			throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
 		}
 
-		this.logger.debug('Closing database connection');
-		await pgp.end();
-		return result;
+		// Background runs close the storage themselves once the crawl is over
+		if (!runsInBackground) {
+			this.logger.debug('Closing crawler storage');
+			await storage.close();
+		}
+
+		// All items of a crawler operation, e.g. one per page or link, belong to the same input item
+		return result.map((item) => ({ ...item, pairedItem: { item: itemIndex } }));
 	} catch (error) {
 		this.logger.error('Error in crawler node', { error: error.message, stack: error.stack });
-		await pgp.end();
+		await storage.close();
 		throw new NodeOperationError(this.getNode(), error as Error);
 	}
 } 
\ No newline at end of file
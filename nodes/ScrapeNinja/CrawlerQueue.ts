@@ -1,25 +1,74 @@
 import pLimit from 'p-limit';
 
+export interface IHostRateLimit {
+	// Minimum time between two requests to the same host
+	minDelayMs?: number;
+	// 0 means no per-minute limit
+	maxRequestsPerMinute?: number;
+	// Random extra delay (0..jitterMs) added after every request to a host
+	jitterMs?: number;
+}
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
 export class CrawlerQueue {
 	private limit: ReturnType<typeof pLimit>;
 	private activePromises: Set<Promise<any>>;
 	private stopped = false;
+	private rateLimit: IHostRateLimit;
+	// Earliest start of the next request per host
+	private hostNextRequestAt = new Map<string, number>();
+	// Start times of requests within the last minute per host, in ascending order
+	private hostRequestTimes = new Map<string, number[]>();
 
-	constructor(concurrency: number) {
-		this.limit = pLimit(concurrency);
+	constructor(concurrency: number, rateLimit: IHostRateLimit = {}) {
+		this.limit = pLimit(Math.max(1, concurrency));
 		this.activePromises = new Set();
+		this.rateLimit = rateLimit;
+	}
+
+	/**
+	 * Reserves the next allowed start time for a request to the host. Only called once the request
+	 * holds a concurrency slot, so the delay is measured from the actual start of the previous request.
+	 */
+	private reserveSlot(host: string): number {
+		const { minDelayMs = 0, maxRequestsPerMinute = 0, jitterMs = 0 } = this.rateLimit;
+		let startAt = Math.max(Date.now(), this.hostNextRequestAt.get(host) ?? 0);
+
+		if (maxRequestsPerMinute > 0) {
+			const times = (this.hostRequestTimes.get(host) ?? []).filter((time) => time > startAt - RATE_LIMIT_WINDOW_MS);
+			if (times.length >= maxRequestsPerMinute) {
+				// Wait until enough requests left the one-minute window
+				startAt = times[times.length - maxRequestsPerMinute] + RATE_LIMIT_WINDOW_MS;
+			}
+			times.push(startAt);
+			this.hostRequestTimes.set(host, times);
+		}
+
+		const jitter = jitterMs > 0 ? Math.floor(Math.random() * (jitterMs + 1)) : 0;
+		this.hostNextRequestAt.set(host, startAt + minDelayMs + jitter);
+
+		return startAt;
 	}
 
-	async add(task: () => Promise<any>): Promise<any> {
+	/**
+	 * Runs the task once a concurrency slot is free. With a host, the task also waits
+	 * for the per-host rate limit, so no single domain gets hammered.
+	 */
+	async add(task: () => Promise<any>, host?: string): Promise<any> {
 		if (this.stopped) return;
 
 		const wrappedTask = async () => {
-			try {
-				return await task();
-			} catch (error) {
-				// Ensure errors in tasks don't break the queue
-				throw error;
+			if (host) {
+				// Waiting keeps the concurrency slot, queued tasks can't start in a burst once it frees up
+				const waitMs = this.reserveSlot(host) - Date.now();
+				if (waitMs > 0) {
+					await new Promise((resolve) => setTimeout(resolve, waitMs));
+				}
 			}
+			if (this.stopped) return;
+
+			return await task();
 		};
 
 		const promise = this.limit(wrappedTask);
@@ -41,4 +90,4 @@ export class CrawlerQueue {
 	get pending(): number {
 		return this.activePromises.size;
 	}
-} 
\ No newline at end of file
+}
@@ -0,0 +1,146 @@
+import type { IQueueItemStats } from './CrawlerStorage';
+
+const TOP_LIST_SIZE = 10;
+const MAX_ERROR_LENGTH = 200;
+
+interface IPageCounts {
+	total: number;
+	completed: number;
+	failed: number;
+}
+
+export interface ICrawlerDetailedStats {
+	pages_by_depth: Array<{ depth: number } & IPageCounts>;
+	pages_by_host: Array<{ host: string; bytes_downloaded: number; avg_latency_ms: number | null } & IPageCounts>;
+	// Target website status codes of fetched pages
+	pages_by_status_code: Record<string, number>;
+	latency_ms: {
+		avg: number | null;
+		p50: number | null;
+		p95: number | null;
+		max: number | null;
+	};
+	bytes_downloaded: number;
+	avg_page_bytes: number | null;
+	top_errors: Array<{ error: string; count: number }>;
+	most_linked_pages: Array<{ url: string; status: string; inlinks: number }>;
+}
+
+function percentile(sortedValues: number[], fraction: number): number | null {
+	if (sortedValues.length === 0) return null;
+	// Nearest-rank percentile
+	const rank = Math.ceil(fraction * sortedValues.length);
+	return sortedValues[Math.min(sortedValues.length, Math.max(1, rank)) - 1];
+}
+
+function average(values: number[]): number | null {
+	return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+}
+
+// Errors may be stored as JSON with the ScrapeNinja response, only their message is grouped
+function getErrorMessage(error: string): string {
+	let message = error;
+	try {
+		const parsed = JSON.parse(error);
+		if (typeof parsed?.message === 'string') {
+			message = parsed.message;
+		}
+	} catch {
+		// Plain text error
+	}
+	return message.length > MAX_ERROR_LENGTH ? `${message.substring(0, MAX_ERROR_LENGTH)}...` : message;
+}
+
+function getHost(url: string): string {
+	try {
+		return new URL(url).host;
+	} catch {
+		return '';
+	}
+}
+
+function countPage(counts: IPageCounts, item: IQueueItemStats): void {
+	counts.total++;
+	if (item.status === 'completed') counts.completed++;
+	if (item.status === 'failed') counts.failed++;
+}
+
+/**
+ * Computes the detailed stats report of a run from its queue rows.
+ */
+export function computeCrawlerStats(items: IQueueItemStats[]): ICrawlerDetailedStats {
+	const byDepth = new Map<number, IPageCounts>();
+	const byHost = new Map<string, IPageCounts & { bytes: number; latencies: number[] }>();
+	const byStatusCode: Record<string, number> = {};
+	const errors = new Map<string, number>();
+	const latencies: number[] = [];
+	let bytesDownloaded = 0;
+	let downloadedPages = 0;
+
+	for (const item of items) {
+		const depthCounts = byDepth.get(item.depth) ?? { total: 0, completed: 0, failed: 0 };
+		countPage(depthCounts, item);
+		byDepth.set(item.depth, depthCounts);
+
+		const host = getHost(item.url);
+		const hostStats = byHost.get(host) ?? { total: 0, completed: 0, failed: 0, bytes: 0, latencies: [] };
+		countPage(hostStats, item);
+		byHost.set(host, hostStats);
+
+		if (item.response_status_code !== null && item.response_status_code !== undefined) {
+			byStatusCode[item.response_status_code] = (byStatusCode[item.response_status_code] ?? 0) + 1;
+		}
+
+		if (item.latency_ms !== null && item.latency_ms !== undefined) {
+			latencies.push(item.latency_ms);
+			hostStats.latencies.push(item.latency_ms);
+		}
+
+		if (item.response_bytes !== null && item.response_bytes !== undefined) {
+			bytesDownloaded += item.response_bytes;
+			hostStats.bytes += item.response_bytes;
+			downloadedPages++;
+		}
+
+		if (item.status === 'failed' && item.error) {
+			const message = getErrorMessage(item.error);
+			errors.set(message, (errors.get(message) ?? 0) + 1);
+		}
+	}
+
+	const sortedLatencies = [...latencies].sort((a, b) => a - b);
+
+	return {
+		pages_by_depth: Array.from(byDepth.entries())
+			.sort(([a], [b]) => a - b)
+			.map(([depth, counts]) => ({ depth, ...counts })),
+		pages_by_host: Array.from(byHost.entries())
+			.sort(([, a], [, b]) => b.total - a.total)
+			.map(([host, { total, completed, failed, bytes, latencies: hostLatencies }]) => ({
+				host,
+				total,
+				completed,
+				failed,
+				bytes_downloaded: bytes,
+				avg_latency_ms: average(hostLatencies),
+			})),
+		pages_by_status_code: byStatusCode,
+		latency_ms: {
+			avg: average(latencies),
+			p50: percentile(sortedLatencies, 0.5),
+			p95: percentile(sortedLatencies, 0.95),
+			max: sortedLatencies.length > 0 ? sortedLatencies[sortedLatencies.length - 1] : null,
+		},
+		bytes_downloaded: bytesDownloaded,
+		avg_page_bytes: downloadedPages > 0 ? Math.round(bytesDownloaded / downloadedPages) : null,
+		top_errors: Array.from(errors.entries())
+			.sort(([, a], [, b]) => b - a)
+			.slice(0, TOP_LIST_SIZE)
+			.map(([error, count]) => ({ error, count })),
+		most_linked_pages: items
+			.filter((item) => item.inlink_count > 0)
+			.sort((a, b) => b.inlink_count - a.inlink_count)
+			.slice(0, TOP_LIST_SIZE)
+			.map((item) => ({ url: item.url, status: item.status, inlinks: item.inlink_count })),
+	};
+}
@@ -0,0 +1,284 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { join } from 'path';
+import { homedir } from 'os';
+import type { ICrawlerOptions, IScrapeSettings } from './types';
+import { PostgresCrawlerStorage } from './CrawlerStoragePostgres';
+import { SqliteCrawlerStorage } from './CrawlerStorageSqlite';
+import { MemoryCrawlerStorage } from './CrawlerStorageMemory';
+import { TABLE_PREFIX_REGEX } from './CrawlerMigrations';
+
+export type CrawlerRunStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'canceled';
+// Skipped URLs are never fetched (again), e.g. robots.txt disallowed or duplicates, unlike canceled ones they stay skipped on resume
+export type CrawlerQueueStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'canceled' | 'skipped';
+export type CrawlerLogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type CrawlerChangeStatus = 'new' | 'changed' | 'unchanged';
+// Why a checked link is broken, see checkLink in LinkChecker.ts
+export type LinkCheckProblem = 'http_error' | 'redirect_loop' | 'too_many_redirects' | 'timeout' | 'request_error';
+
+export interface ICrawlerRun {
+	id: number;
+	start_url: string;
+	start_urls: string[];
+	status: CrawlerRunStatus;
+	max_depth: number;
+	max_pages: number;
+	concurrency: number;
+	include_patterns: string[];
+	exclude_patterns: string[];
+	crawl_external: boolean;
+	settings: IScrapeSettings;
+	options: ICrawlerOptions;
+	previous_run_id: number | null;
+	created_at: Date;
+	updated_at: Date;
+	completed_at: Date | null;
+}
+
+export interface ICrawlerQueueItem {
+	id: number;
+	run_id: number;
+	url: string;
+	status: CrawlerQueueStatus;
+	parent_url: string | null;
+	depth: number;
+	created_at: Date;
+	updated_at: Date;
+	error: string | null;
+	// Not loaded by getItems() unless includeHtml is set
+	response_html?: string | null;
+	// Base64 encoded PNG of /scrape-js runs with screenshots enabled, loaded like response_html
+	screenshot?: string | null;
+	response_status_code: number | null;
+	response_final_url: string | null;
+	page_title: string | null;
+	lastmod: Date | null;
+	extracted_json: any;
+	content_markdown: string | null;
+	content_hash: string | null;
+	change_status: CrawlerChangeStatus | null;
+	// Number of fetch attempts made for the URL
+	attempts: number;
+	// Pending URLs waiting for a retry are not claimed before this time
+	next_attempt_at: Date | null;
+	// Duration and body size of the last fetch
+	latency_ms: number | null;
+	response_bytes: number | null;
+	// Number of crawled pages linking to the URL
+	inlink_count: number;
+}
+
+export interface ICrawlerLog {
+	id: number;
+	run_id: number;
+	level: CrawlerLogLevel;
+	message: string;
+	metadata: any;
+	created_at: Date;
+}
+
+export interface ICrawlerLink {
+	id: number;
+	run_id: number;
+	from_url: string;
+	to_url: string;
+	anchor_text: string | null;
+	// Value of the rel attribute, e.g. "nofollow noopener"
+	rel: string | null;
+	nofollow: boolean;
+	created_at: Date;
+}
+
+// Link to a queued URL which failed or responded with an error status code
+export interface IBrokenLink extends Pick<ICrawlerLink, 'from_url' | 'to_url' | 'anchor_text' | 'nofollow'> {
+	status: CrawlerQueueStatus;
+	response_status_code: number | null;
+	error: string | null;
+}
+
+// Result of a lightweight check of an external link, which is not crawled itself
+export interface ICrawlerLinkCheck {
+	id: number;
+	run_id: number;
+	url: string;
+	// Status code of the last response, null when no response was received
+	status_code: number | null;
+	final_url: string | null;
+	// URLs the link redirected through, starting with the link URL
+	redirect_chain: string[];
+	problem: LinkCheckProblem | null;
+	error: string | null;
+	latency_ms: number | null;
+	created_at: Date;
+}
+
+// Link to an external URL whose check found a problem
+export interface IBrokenExternalLink extends Pick<ICrawlerLink, 'from_url' | 'to_url' | 'anchor_text' | 'nofollow'>,
+	Pick<ICrawlerLinkCheck, 'status_code' | 'final_url' | 'redirect_chain' | 'problem' | 'error'> {}
+
+export type INewCrawlerRun = Omit<ICrawlerRun, 'id' | 'status' | 'created_at' | 'updated_at' | 'completed_at'>;
+
+export interface INewQueueItem {
+	url: string;
+	parent_url?: string | null;
+	depth: number;
+	lastmod?: string | null;
+}
+
+export type INewCrawlerLink = Pick<ICrawlerLink, 'to_url' | 'anchor_text' | 'rel' | 'nofollow'>;
+
+export type INewLinkCheck = Omit<ICrawlerLinkCheck, 'id' | 'run_id' | 'created_at'>;
+
+export type ICrawlerRunChanges = Partial<Pick<ICrawlerRun, 'status' | 'max_pages' | 'completed_at' | 'options'>>;
+
+export type ICrawlerQueueItemChanges = Partial<Pick<
+	ICrawlerQueueItem,
+	| 'status'
+	| 'error'
+	| 'response_html'
+	| 'screenshot'
+	| 'response_status_code'
+	| 'response_final_url'
+	| 'page_title'
+	| 'extracted_json'
+	| 'content_markdown'
+	| 'content_hash'
+	| 'change_status'
+	| 'attempts'
+	| 'next_attempt_at'
+	| 'latency_ms'
+	| 'response_bytes'
+>>;
+
+// Columns the detailed run stats are computed from
+export type IQueueItemStats = Pick<
+	ICrawlerQueueItem,
+	'url' | 'status' | 'depth' | 'response_status_code' | 'error' | 'latency_ms' | 'response_bytes' | 'inlink_count'
+>;
+
+export interface IQueueCounts {
+	total: number;
+	pending: number;
+	processing: number;
+	completed: number;
+	failed: number;
+	canceled: number;
+	skipped: number;
+}
+
+export interface IChangeCounts {
+	new: number;
+	changed: number;
+	unchanged: number;
+	// Pages completed in the previous run which were not completed in this run
+	removed: number;
+}
+
+export interface IQueueItemsQuery {
+	status?: CrawlerQueueStatus;
+	includeHtml?: boolean;
+	// 0 means all items
+	limit?: number;
+	offset?: number;
+}
+
+/**
+ * Persistence of crawler runs, their URL queue and logs. Every backend keeps the same
+ * row shapes, so runs behave the same way whether they are stored in Postgres, SQLite or memory.
+ */
+export interface ICrawlerStorage {
+	// Creates missing tables and applies pending schema migrations, returns names of the applied migrations
+	migrate(): Promise<string[]>;
+	// Drops the tables of this storage only, tables with other prefixes are kept
+	dropTables(): Promise<void>;
+	close(): Promise<void>;
+
+	// Creates a running run together with its seed URLs
+	createRun(run: INewCrawlerRun, seeds: INewQueueItem[]): Promise<ICrawlerRun>;
+	getRun(runId: number): Promise<ICrawlerRun | null>;
+	// Only updates runs whose status is one of fromStatuses (any run when omitted), returns null otherwise
+	updateRun(runId: number, changes: ICrawlerRunChanges, fromStatuses?: CrawlerRunStatus[]): Promise<ICrawlerRun | null>;
+
+	// Adds pending URLs to the queue, URLs which are already queued for the run are skipped
+	enqueue(runId: number, items: INewQueueItem[]): Promise<number>;
+	// Counts a link from a crawled page to each of the URLs, URLs which are not queued are ignored
+	addInlinks(runId: number, urls: string[]): Promise<void>;
+	// Marks the next pending URL (lowest depth first) as processing and returns it, URLs waiting for a retry are skipped
+	claimNextItem(runId: number): Promise<ICrawlerQueueItem | null>;
+	updateItem(itemId: number, changes: ICrawlerQueueItemChanges, fromStatuses?: CrawlerQueueStatus[]): Promise<void>;
+	// Bulk status change for all items of a run in one of fromStatuses, returns the number of changed items
+	updateItems(runId: number, fromStatuses: CrawlerQueueStatus[], changes: Pick<ICrawlerQueueItemChanges, 'status' | 'error'>): Promise<number>;
+	countItems(runId: number): Promise<IQueueCounts>;
+	getItems(runId: number, query?: IQueueItemsQuery): Promise<ICrawlerQueueItem[]>;
+	getItemStats(runId: number): Promise<IQueueItemStats[]>;
+	// Most recent change to any queue item of the run, null for an empty queue
+	getLastItemUpdate(runId: number): Promise<Date | null>;
+	getCompletedItem(runId: number, url: string): Promise<ICrawlerQueueItem | null>;
+	// Queue item of the URL in any status
+	getItemByUrl(runId: number, url: string): Promise<ICrawlerQueueItem | null>;
+	countChanges(runId: number, previousRunId: number): Promise<IChangeCounts>;
+	getRemovedPages(runId: number, previousRunId: number): Promise<Array<Pick<ICrawlerQueueItem, 'url' | 'page_title'>>>;
+
+	// Replaces the outgoing links of a page, so processing a page again doesn't duplicate its links
+	setPageLinks(runId: number, fromUrl: string, links: INewCrawlerLink[]): Promise<void>;
+	// 0 means all links
+	getLinks(runId: number, limit?: number, offset?: number): Promise<ICrawlerLink[]>;
+	// Completed pages no other page links to
+	getOrphanPages(runId: number): Promise<Array<Pick<ICrawlerQueueItem, 'url' | 'depth' | 'parent_url' | 'page_title'>>>;
+	getBrokenLinks(runId: number): Promise<IBrokenLink[]>;
+
+	// Every URL is checked once per run, saving a URL again keeps the first result
+	saveLinkCheck(runId: number, check: INewLinkCheck): Promise<void>;
+	getLinkCheck(runId: number, url: string): Promise<ICrawlerLinkCheck | null>;
+	getBrokenExternalLinks(runId: number): Promise<IBrokenExternalLink[]>;
+
+	log(runId: number, level: CrawlerLogLevel, message: string, metadata?: any): Promise<void>;
+	getLogs(runId: number, levels?: string[]): Promise<ICrawlerLog[]>;
+}
+
+export const DEFAULT_SQLITE_FILE = 'scrapeninja-crawler.sqlite';
+
+// Relative SQLite paths are resolved against the n8n user folder, next to n8n's own database
+function resolveSqlitePath(filePath: string): string {
+	const userFolder = process.env.N8N_USER_FOLDER
+		? join(process.env.N8N_USER_FOLDER, '.n8n')
+		: join(homedir(), '.n8n');
+
+	return filePath.startsWith('/') || /^[a-zA-Z]:[\\/]/.test(filePath)
+		? filePath
+		: join(userFolder, filePath);
+}
+
+export async function getCrawlerStorage(this: IExecuteFunctions, itemIndex: number): Promise<ICrawlerStorage> {
+	const backend = this.getNodeParameter('storageBackend', itemIndex, 'postgres') as string;
+	const tablePrefix = (this.getNodeParameter('tablePrefix', itemIndex, '') as string).trim();
+
+	if (!TABLE_PREFIX_REGEX.test(tablePrefix)) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Invalid table prefix "${tablePrefix}": only lowercase letters, digits and underscores are allowed`,
+			{ itemIndex },
+		);
+	}
+
+	if (backend === 'memory') {
+		return new MemoryCrawlerStorage(tablePrefix);
+	}
+
+	if (backend === 'sqlite') {
+		const filePath = (this.getNodeParameter('sqliteFile', itemIndex, '') as string).trim() || DEFAULT_SQLITE_FILE;
+		return new SqliteCrawlerStorage(resolveSqlitePath(filePath), tablePrefix);
+	}
+
+	const credentials = await this.getCredentials('postgres');
+	return new PostgresCrawlerStorage({
+		host: credentials.host as string,
+		port: credentials.port as number,
+		user: credentials.user as string,
+		password: credentials.password as string,
+		database: credentials.database as string,
+		ssl: !!(credentials.ssl as boolean),
+		schema: (this.getNodeParameter('databaseSchema', itemIndex, 'public') as string).trim() || 'public',
+		tablePrefix,
+	});
+}
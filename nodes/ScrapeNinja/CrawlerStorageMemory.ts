@@ -0,0 +1,461 @@
+import type {
+	CrawlerLogLevel,
+	CrawlerQueueStatus,
+	CrawlerRunStatus,
+	IBrokenExternalLink,
+	IBrokenLink,
+	IChangeCounts,
+	ICrawlerLink,
+	ICrawlerLinkCheck,
+	ICrawlerLog,
+	ICrawlerQueueItem,
+	ICrawlerQueueItemChanges,
+	ICrawlerRun,
+	ICrawlerRunChanges,
+	ICrawlerStorage,
+	INewCrawlerLink,
+	INewCrawlerRun,
+	INewLinkCheck,
+	INewQueueItem,
+	IQueueCounts,
+	IQueueItemStats,
+	IQueueItemsQuery,
+} from './CrawlerStorage';
+
+interface IMemoryStore {
+	runs: Map<number, ICrawlerRun>;
+	// Queue items and logs by run id, in insertion order
+	queue: Map<number, ICrawlerQueueItem[]>;
+	items: Map<number, ICrawlerQueueItem>;
+	logs: Map<number, ICrawlerLog[]>;
+	links: Map<number, ICrawlerLink[]>;
+	// Link checks by run id and URL
+	linkChecks: Map<number, Map<string, ICrawlerLinkCheck>>;
+	lastRunId: number;
+	lastQueueId: number;
+	lastLogId: number;
+	lastLinkId: number;
+	lastLinkCheckId: number;
+}
+
+// Shared by all executions in this n8n process, so status/pause/cancel see runs started by other executions.
+// Every table prefix gets its own store, like separate tables in a database.
+const stores = new Map<string, IMemoryStore>();
+
+// Finished runs kept per store for status and change detection, older ones are removed with their pages
+const MAX_FINISHED_RUNS = 10;
+
+const FINISHED_RUN_STATUSES: CrawlerRunStatus[] = ['completed', 'failed', 'canceled'];
+
+function getStore(tablePrefix: string): IMemoryStore {
+	let store = stores.get(tablePrefix);
+	if (!store) {
+		store = {
+			runs: new Map(),
+			queue: new Map(),
+			items: new Map(),
+			logs: new Map(),
+			links: new Map(),
+			linkChecks: new Map(),
+			lastRunId: 0,
+			lastQueueId: 0,
+			lastLogId: 0,
+			lastLinkId: 0,
+			lastLinkCheckId: 0,
+		};
+		stores.set(tablePrefix, store);
+	}
+	return store;
+}
+
+/**
+ * Keeps crawler data in the memory of the n8n process. Nothing has to be installed or configured,
+ * but all runs are lost when n8n restarts and they are not visible to other n8n workers.
+ */
+export class MemoryCrawlerStorage implements ICrawlerStorage {
+	private readonly tablePrefix: string;
+
+	constructor(tablePrefix: string) {
+		this.tablePrefix = tablePrefix;
+	}
+
+	async migrate(): Promise<string[]> {
+		getStore(this.tablePrefix);
+		return [];
+	}
+
+	async dropTables(): Promise<void> {
+		stores.delete(this.tablePrefix);
+	}
+
+	async close(): Promise<void> {}
+
+	private get store(): IMemoryStore {
+		return getStore(this.tablePrefix);
+	}
+
+	private getQueue(runId: number): ICrawlerQueueItem[] {
+		let items = this.store.queue.get(runId);
+		if (!items) {
+			items = [];
+			this.store.queue.set(runId, items);
+		}
+		return items;
+	}
+
+	private insertQueueItems(runId: number, items: INewQueueItem[]): void {
+		const queue = this.getQueue(runId);
+		const now = new Date();
+
+		for (const item of items) {
+			const queueItem: ICrawlerQueueItem = {
+				id: ++this.store.lastQueueId,
+				run_id: runId,
+				url: item.url,
+				status: 'pending',
+				parent_url: item.parent_url ?? null,
+				depth: item.depth,
+				created_at: now,
+				updated_at: now,
+				error: null,
+				response_html: null,
+				screenshot: null,
+				response_status_code: null,
+				response_final_url: null,
+				page_title: null,
+				lastmod: item.lastmod ? new Date(item.lastmod) : null,
+				extracted_json: null,
+				content_markdown: null,
+				content_hash: null,
+				change_status: null,
+				attempts: 0,
+				next_attempt_at: null,
+				latency_ms: null,
+				response_bytes: null,
+				inlink_count: 0,
+			};
+			queue.push(queueItem);
+			this.store.items.set(queueItem.id, queueItem);
+		}
+	}
+
+	async createRun(run: INewCrawlerRun, seeds: INewQueueItem[]): Promise<ICrawlerRun> {
+		const now = new Date();
+		const created: ICrawlerRun = {
+			...run,
+			id: ++this.store.lastRunId,
+			status: 'running',
+			created_at: now,
+			updated_at: now,
+			completed_at: null,
+		};
+
+		this.store.runs.set(created.id, created);
+		this.insertQueueItems(created.id, seeds);
+		return { ...created };
+	}
+
+	async getRun(runId: number): Promise<ICrawlerRun | null> {
+		const run = this.store.runs.get(runId);
+		return run ? { ...run } : null;
+	}
+
+	async updateRun(runId: number, changes: ICrawlerRunChanges, fromStatuses?: CrawlerRunStatus[]): Promise<ICrawlerRun | null> {
+		const run = this.store.runs.get(runId);
+		if (!run || (fromStatuses && !fromStatuses.includes(run.status))) {
+			return null;
+		}
+
+		Object.assign(run, changes, { updated_at: new Date() });
+
+		if (changes.status && FINISHED_RUN_STATUSES.includes(changes.status)) {
+			this.evictFinishedRuns();
+		}
+
+		return { ...run };
+	}
+
+	// Keeps the memory of the n8n process from growing with every run. Runs which an unfinished run
+	// compares with are kept until it finishes, otherwise its change detection would lose its base.
+	private evictFinishedRuns(): void {
+		const runs = Array.from(this.store.runs.values());
+		const comparedRunIds = new Set(
+			runs.filter((run) => !FINISHED_RUN_STATUSES.includes(run.status)).map((run) => run.previous_run_id),
+		);
+		const finishedRuns = runs
+			.filter((run) => FINISHED_RUN_STATUSES.includes(run.status) && !comparedRunIds.has(run.id))
+			.sort((a, b) => a.id - b.id);
+
+		for (const run of finishedRuns.slice(0, Math.max(0, finishedRuns.length - MAX_FINISHED_RUNS))) {
+			for (const item of this.store.queue.get(run.id) ?? []) {
+				this.store.items.delete(item.id);
+			}
+			this.store.runs.delete(run.id);
+			this.store.queue.delete(run.id);
+			this.store.logs.delete(run.id);
+			this.store.links.delete(run.id);
+			this.store.linkChecks.delete(run.id);
+		}
+	}
+
+	async enqueue(runId: number, items: INewQueueItem[]): Promise<number> {
+		const existingUrls = new Set(this.getQueue(runId).map((item) => item.url));
+
+		const newItems = items.filter((item) => {
+			if (existingUrls.has(item.url)) return false;
+			existingUrls.add(item.url);
+			return true;
+		});
+
+		this.insertQueueItems(runId, newItems);
+		return newItems.length;
+	}
+
+	async addInlinks(runId: number, urls: string[]): Promise<void> {
+		const linkedUrls = new Set(urls);
+		for (const item of this.getQueue(runId)) {
+			if (linkedUrls.has(item.url)) {
+				item.inlink_count++;
+			}
+		}
+	}
+
+	async claimNextItem(runId: number): Promise<ICrawlerQueueItem | null> {
+		const now = new Date();
+		let next: ICrawlerQueueItem | undefined;
+		for (const item of this.getQueue(runId)) {
+			if (item.status !== 'pending' || (item.next_attempt_at && item.next_attempt_at > now)) continue;
+			// Items are kept in insertion order, so the first pending item of the lowest depth is the oldest one
+			if (!next || item.depth < next.depth) {
+				next = item;
+			}
+		}
+
+		if (!next) return null;
+
+		next.status = 'processing';
+		next.updated_at = now;
+		return { ...next, response_html: undefined, screenshot: undefined };
+	}
+
+	async updateItem(itemId: number, changes: ICrawlerQueueItemChanges, fromStatuses?: CrawlerQueueStatus[]): Promise<void> {
+		const item = this.store.items.get(itemId);
+		if (!item || (fromStatuses && !fromStatuses.includes(item.status))) {
+			return;
+		}
+
+		Object.assign(item, changes, { updated_at: new Date() });
+	}
+
+	async updateItems(
+		runId: number,
+		fromStatuses: CrawlerQueueStatus[],
+		changes: Pick<ICrawlerQueueItemChanges, 'status' | 'error'>,
+	): Promise<number> {
+		const now = new Date();
+		let updated = 0;
+
+		for (const item of this.getQueue(runId)) {
+			if (fromStatuses.includes(item.status)) {
+				Object.assign(item, { error: null }, changes, { updated_at: now });
+				updated++;
+			}
+		}
+
+		return updated;
+	}
+
+	async countItems(runId: number): Promise<IQueueCounts> {
+		const counts: IQueueCounts = { total: 0, pending: 0, processing: 0, completed: 0, failed: 0, canceled: 0, skipped: 0 };
+
+		for (const item of this.getQueue(runId)) {
+			counts.total++;
+			counts[item.status]++;
+		}
+
+		return counts;
+	}
+
+	async getItems(runId: number, query: IQueueItemsQuery = {}): Promise<ICrawlerQueueItem[]> {
+		const { status, includeHtml = false, limit = 0, offset = 0 } = query;
+
+		const items = this.getQueue(runId).filter((item) => !status || item.status === status);
+		return items
+			.slice(offset, limit > 0 ? offset + limit : undefined)
+			.map((item) => includeHtml ? { ...item } : { ...item, response_html: undefined, screenshot: undefined });
+	}
+
+	async getItemStats(runId: number): Promise<IQueueItemStats[]> {
+		return this.getQueue(runId).map(({ url, status, depth, response_status_code, error, latency_ms, response_bytes, inlink_count }) => ({
+			url,
+			status,
+			depth,
+			response_status_code,
+			error,
+			latency_ms,
+			response_bytes,
+			inlink_count,
+		}));
+	}
+
+	async getLastItemUpdate(runId: number): Promise<Date | null> {
+		let lastUpdate: Date | null = null;
+		for (const item of this.getQueue(runId)) {
+			if (!lastUpdate || item.updated_at > lastUpdate) {
+				lastUpdate = item.updated_at;
+			}
+		}
+		return lastUpdate;
+	}
+
+	async getCompletedItem(runId: number, url: string): Promise<ICrawlerQueueItem | null> {
+		const item = this.getQueue(runId).find((queueItem) => queueItem.url === url && queueItem.status === 'completed');
+		return item ? { ...item, response_html: undefined, screenshot: undefined } : null;
+	}
+
+	async getItemByUrl(runId: number, url: string): Promise<ICrawlerQueueItem | null> {
+		const item = this.getQueue(runId).find((queueItem) => queueItem.url === url);
+		return item ? { ...item, response_html: undefined, screenshot: undefined } : null;
+	}
+
+	async countChanges(runId: number, previousRunId: number): Promise<IChangeCounts> {
+		const counts: IChangeCounts = { new: 0, changed: 0, unchanged: 0, removed: 0 };
+
+		for (const item of this.getQueue(runId)) {
+			if (item.status === 'completed' && item.change_status) {
+				counts[item.change_status]++;
+			}
+		}
+		counts.removed = (await this.getRemovedPages(runId, previousRunId)).length;
+
+		return counts;
+	}
+
+	async getRemovedPages(runId: number, previousRunId: number): Promise<Array<Pick<ICrawlerQueueItem, 'url' | 'page_title'>>> {
+		const completedUrls = new Set(
+			this.getQueue(runId).filter((item) => item.status === 'completed').map((item) => item.url),
+		);
+
+		return this.getQueue(previousRunId)
+			.filter((item) => item.status === 'completed' && !completedUrls.has(item.url))
+			.map((item) => ({ url: item.url, page_title: item.page_title }));
+	}
+
+	async setPageLinks(runId: number, fromUrl: string, links: INewCrawlerLink[]): Promise<void> {
+		const now = new Date();
+		const runLinks = (this.store.links.get(runId) ?? []).filter((link) => link.from_url !== fromUrl);
+
+		for (const link of links) {
+			runLinks.push({ ...link, id: ++this.store.lastLinkId, run_id: runId, from_url: fromUrl, created_at: now });
+		}
+		this.store.links.set(runId, runLinks);
+	}
+
+	async getLinks(runId: number, limit: number = 0, offset: number = 0): Promise<ICrawlerLink[]> {
+		return (this.store.links.get(runId) ?? [])
+			.slice(offset, limit > 0 ? offset + limit : undefined)
+			.map((link) => ({ ...link }));
+	}
+
+	async getOrphanPages(runId: number): Promise<Array<Pick<ICrawlerQueueItem, 'url' | 'depth' | 'parent_url' | 'page_title'>>> {
+		const linkedUrls = new Set(
+			(this.store.links.get(runId) ?? [])
+				.filter((link) => link.from_url !== link.to_url)
+				.map((link) => link.to_url),
+		);
+
+		return this.getQueue(runId)
+			.filter((item) => item.status === 'completed' && !linkedUrls.has(item.url))
+			.map(({ url, depth, parent_url, page_title }) => ({ url, depth, parent_url, page_title }));
+	}
+
+	async getBrokenLinks(runId: number): Promise<IBrokenLink[]> {
+		const itemsByUrl = new Map(this.getQueue(runId).map((item) => [item.url, item]));
+		const brokenLinks: IBrokenLink[] = [];
+
+		for (const link of this.store.links.get(runId) ?? []) {
+			const item = itemsByUrl.get(link.to_url);
+			if (item && (item.status === 'failed' || (item.response_status_code ?? 0) >= 400)) {
+				brokenLinks.push({
+					from_url: link.from_url,
+					to_url: link.to_url,
+					anchor_text: link.anchor_text,
+					nofollow: link.nofollow,
+					status: item.status,
+					response_status_code: item.response_status_code,
+					error: item.error,
+				});
+			}
+		}
+		return brokenLinks;
+	}
+
+	async saveLinkCheck(runId: number, check: INewLinkCheck): Promise<void> {
+		let runChecks = this.store.linkChecks.get(runId);
+		if (!runChecks) {
+			runChecks = new Map();
+			this.store.linkChecks.set(runId, runChecks);
+		}
+		if (runChecks.has(check.url)) return;
+
+		runChecks.set(check.url, {
+			...check,
+			redirect_chain: [...check.redirect_chain],
+			id: ++this.store.lastLinkCheckId,
+			run_id: runId,
+			created_at: new Date(),
+		});
+	}
+
+	async getLinkCheck(runId: number, url: string): Promise<ICrawlerLinkCheck | null> {
+		const check = this.store.linkChecks.get(runId)?.get(url);
+		return check ? { ...check, redirect_chain: [...check.redirect_chain] } : null;
+	}
+
+	async getBrokenExternalLinks(runId: number): Promise<IBrokenExternalLink[]> {
+		const runChecks = this.store.linkChecks.get(runId);
+		const brokenLinks: IBrokenExternalLink[] = [];
+
+		for (const link of this.store.links.get(runId) ?? []) {
+			const check = runChecks?.get(link.to_url);
+			if (check?.problem) {
+				brokenLinks.push({
+					from_url: link.from_url,
+					to_url: link.to_url,
+					anchor_text: link.anchor_text,
+					nofollow: link.nofollow,
+					status_code: check.status_code,
+					final_url: check.final_url,
+					redirect_chain: [...check.redirect_chain],
+					problem: check.problem,
+					error: check.error,
+				});
+			}
+		}
+		return brokenLinks;
+	}
+
+	async log(runId: number, level: CrawlerLogLevel, message: string, metadata?: any): Promise<void> {
+		let logs = this.store.logs.get(runId);
+		if (!logs) {
+			logs = [];
+			this.store.logs.set(runId, logs);
+		}
+
+		logs.push({
+			id: ++this.store.lastLogId,
+			run_id: runId,
+			level,
+			message,
+			// Stored as a copy, like a JSON column would
+			metadata: metadata === undefined ? null : JSON.parse(JSON.stringify(metadata)),
+			created_at: new Date(),
+		});
+	}
+
+	async getLogs(runId: number, levels: string[] = []): Promise<ICrawlerLog[]> {
+		return (this.store.logs.get(runId) ?? [])
+			.filter((log) => levels.length === 0 || levels.includes(log.level))
+			.map((log) => ({ ...log }));
+	}
+}
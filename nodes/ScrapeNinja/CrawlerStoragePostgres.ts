@@ -0,0 +1,454 @@
+import pgPromise, { IDatabase, IMain, ITask } from 'pg-promise';
+import type {
+	CrawlerLogLevel,
+	CrawlerQueueStatus,
+	CrawlerRunStatus,
+	IBrokenExternalLink,
+	IBrokenLink,
+	IChangeCounts,
+	ICrawlerLink,
+	ICrawlerLinkCheck,
+	ICrawlerLog,
+	ICrawlerQueueItem,
+	ICrawlerQueueItemChanges,
+	ICrawlerRun,
+	ICrawlerRunChanges,
+	ICrawlerStorage,
+	INewCrawlerLink,
+	INewCrawlerRun,
+	INewLinkCheck,
+	INewQueueItem,
+	IQueueCounts,
+	IQueueItemStats,
+	IQueueItemsQuery,
+} from './CrawlerStorage';
+import { getCrawlerTables, ICrawlerTables, postgresMigrations } from './CrawlerMigrations';
+
+export interface IPostgresConnection {
+	host: string;
+	port: number;
+	user: string;
+	password: string;
+	database: string;
+	ssl: boolean;
+	// Schema of the crawler tables, created when it doesn't exist
+	schema: string;
+	tablePrefix: string;
+}
+
+// crawler_queue columns without response_html and screenshot, which are only loaded when they are needed
+const queueColumnsSQL = `id, run_id, url, status, parent_url, depth, error, response_status_code, response_final_url,
+	page_title, lastmod, extracted_json, content_markdown, content_hash, change_status, attempts, next_attempt_at, latency_ms, response_bytes, inlink_count, created_at, updated_at`;
+
+// Pages completed in the previous run ($2) which were not completed in the current run ($1)
+const removedPagesFromSQL = (t: ICrawlerTables) => `FROM ${t.queue} p
+	WHERE p.run_id = $2 AND p.status = 'completed'
+	AND NOT EXISTS (
+		SELECT 1 FROM ${t.queue} c
+		WHERE c.run_id = $1 AND c.url = p.url AND c.status = 'completed'
+	)`;
+
+// JSONB values are passed as text so that strings and numbers returned by extractors stay valid JSON
+function toJson(value: any): string | null {
+	return value === null || value === undefined ? null : JSON.stringify(value);
+}
+
+// URLs which are already queued for the run are skipped, returns the number of inserted URLs
+async function insertQueueItems(
+	t: ITask<any> | IDatabase<any>,
+	queueTable: string,
+	runId: number,
+	items: INewQueueItem[],
+): Promise<number> {
+	const values = items.map((item) => ({
+		run_id: runId,
+		url: item.url,
+		status: 'pending',
+		parent_url: item.parent_url ?? null,
+		depth: item.depth,
+		lastmod: item.lastmod ?? null,
+	}));
+
+	const result = await t.result(
+		`INSERT INTO ${queueTable}
+		(run_id, url, status, parent_url, depth, lastmod)
+		SELECT v.run_id, v.url, v.status, v.parent_url, v.depth, v.lastmod
+		FROM jsonb_to_recordset($1) AS v(run_id int, url text, status text, parent_url text, depth int, lastmod timestamptz)
+		ON CONFLICT (run_id, url) DO NOTHING`,
+		[JSON.stringify(values)],
+	);
+	return result.rowCount;
+}
+
+export class PostgresCrawlerStorage implements ICrawlerStorage {
+	private readonly pgp: IMain;
+
+	private readonly db: IDatabase<any>;
+
+	private readonly schema: string;
+
+	private readonly t: ICrawlerTables;
+
+	constructor({ schema, tablePrefix, ...connection }: IPostgresConnection) {
+		this.pgp = pgPromise();
+		this.db = this.pgp(connection);
+		this.schema = schema;
+		this.t = getCrawlerTables(tablePrefix, (name) => `${this.pgp.as.name(schema)}.${this.pgp.as.name(name)}`);
+	}
+
+	async migrate(): Promise<string[]> {
+		return this.db.tx(async (t: ITask<any>) => {
+			// Executions starting at the same time must not apply the same migrations twice
+			await t.none('SELECT pg_advisory_xact_lock(hashtext($1))', [this.t.schemaVersion]);
+
+			// Creating the public schema needs privileges which restricted users often don't have
+			if (this.schema !== 'public') {
+				await t.none('CREATE SCHEMA IF NOT EXISTS $1:name', [this.schema]);
+			}
+
+			await t.none(
+				`CREATE TABLE IF NOT EXISTS ${this.t.schemaVersion} (
+					version INTEGER PRIMARY KEY,
+					name TEXT NOT NULL,
+					applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+				)`,
+			);
+
+			const { version } = await t.one<{ version: number }>(
+				`SELECT COALESCE(MAX(version), 0) AS version FROM ${this.t.schemaVersion}`,
+			);
+
+			const pending = postgresMigrations.filter((migration) => migration.version > version);
+			for (const migration of pending) {
+				await t.none(migration.up(this.t));
+				await t.none(
+					`INSERT INTO ${this.t.schemaVersion} (version, name) VALUES ($1, $2)`,
+					[migration.version, migration.name],
+				);
+			}
+
+			return pending.map((migration) => migration.name);
+		});
+	}
+
+	async dropTables(): Promise<void> {
+		await this.db.none(
+			`DROP TABLE IF EXISTS ${this.t.linkChecks} CASCADE;
+			DROP TABLE IF EXISTS ${this.t.links} CASCADE;
+			DROP TABLE IF EXISTS ${this.t.logs} CASCADE;
+			DROP TABLE IF EXISTS ${this.t.queue} CASCADE;
+			DROP TABLE IF EXISTS ${this.t.runs} CASCADE;
+			DROP TABLE IF EXISTS ${this.t.schemaVersion} CASCADE;`,
+		);
+	}
+
+	async close(): Promise<void> {
+		this.pgp.end();
+	}
+
+	async createRun(run: INewCrawlerRun, seeds: INewQueueItem[]): Promise<ICrawlerRun> {
+		return this.db.tx(async (t: ITask<any>) => {
+			const created = await t.one<ICrawlerRun>(
+				`INSERT INTO ${this.t.runs} (
+					start_url, start_urls, status, max_depth, max_pages,
+					concurrency, include_patterns, exclude_patterns, crawl_external,
+					settings, options, previous_run_id
+				) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12) RETURNING *`,
+				[
+					run.start_url, run.start_urls, 'running', run.max_depth, run.max_pages,
+					run.concurrency, run.include_patterns, run.exclude_patterns, run.crawl_external,
+					run.settings, run.options, run.previous_run_id,
+				],
+			);
+
+			if (seeds.length > 0) {
+				await insertQueueItems(t, this.t.queue, created.id, seeds);
+			}
+
+			return created;
+		});
+	}
+
+	async getRun(runId: number): Promise<ICrawlerRun | null> {
+		return this.db.oneOrNone<ICrawlerRun>(`SELECT * FROM ${this.t.runs} WHERE id = $1`, [runId]);
+	}
+
+	async updateRun(runId: number, changes: ICrawlerRunChanges, fromStatuses?: CrawlerRunStatus[]): Promise<ICrawlerRun | null> {
+		const columns = Object.keys(changes) as Array<keyof ICrawlerRunChanges>;
+		const sets = columns.map((column, index) => `${column} = $${index + 3}`);
+
+		return this.db.oneOrNone<ICrawlerRun>(
+			`UPDATE ${this.t.runs}
+			SET ${[...sets, 'updated_at = CURRENT_TIMESTAMP'].join(', ')}
+			WHERE id = $1 ${fromStatuses ? 'AND status IN ($2:csv)' : ''}
+			RETURNING *`,
+			[runId, fromStatuses ?? [], ...columns.map((column) => changes[column])],
+		);
+	}
+
+	async enqueue(runId: number, items: INewQueueItem[]): Promise<number> {
+		if (items.length === 0) return 0;
+
+		// The unique (run_id, url) constraint skips queued URLs, also when executions enqueue concurrently
+		return insertQueueItems(this.db, this.t.queue, runId, items);
+	}
+
+	async addInlinks(runId: number, urls: string[]): Promise<void> {
+		if (urls.length === 0) return;
+
+		await this.db.none(
+			`UPDATE ${this.t.queue}
+			SET inlink_count = inlink_count + 1
+			WHERE run_id = $1 AND url IN ($2:csv)`,
+			[runId, Array.from(new Set(urls))],
+		);
+	}
+
+	async claimNextItem(runId: number): Promise<ICrawlerQueueItem | null> {
+		return this.db.oneOrNone<ICrawlerQueueItem>(
+			`UPDATE ${this.t.queue}
+			SET status = 'processing', updated_at = CURRENT_TIMESTAMP
+			WHERE id = (
+				SELECT id FROM ${this.t.queue}
+				WHERE run_id = $1 AND status = 'pending'
+					AND (next_attempt_at IS NULL OR next_attempt_at <= CURRENT_TIMESTAMP)
+				ORDER BY depth ASC, created_at ASC, id ASC
+				FOR UPDATE SKIP LOCKED
+				LIMIT 1
+			)
+			RETURNING ${queueColumnsSQL}`,
+			[runId],
+		);
+	}
+
+	async updateItem(itemId: number, changes: ICrawlerQueueItemChanges, fromStatuses?: CrawlerQueueStatus[]): Promise<void> {
+		const columns = Object.keys(changes) as Array<keyof ICrawlerQueueItemChanges>;
+		const sets = columns.map((column, index) => `${column} = $${index + 3}`);
+
+		await this.db.none(
+			`UPDATE ${this.t.queue}
+			SET ${[...sets, 'updated_at = CURRENT_TIMESTAMP'].join(', ')}
+			WHERE id = $1 ${fromStatuses ? 'AND status IN ($2:csv)' : ''}`,
+			[
+				itemId,
+				fromStatuses ?? [],
+				...columns.map((column) => column === 'extracted_json' ? toJson(changes[column]) : changes[column]),
+			],
+		);
+	}
+
+	async updateItems(
+		runId: number,
+		fromStatuses: CrawlerQueueStatus[],
+		changes: Pick<ICrawlerQueueItemChanges, 'status' | 'error'>,
+	): Promise<number> {
+		const result = await this.db.result(
+			`UPDATE ${this.t.queue}
+			SET status = $3,
+				error = $4,
+				updated_at = CURRENT_TIMESTAMP
+			WHERE run_id = $1
+			AND status IN ($2:csv)`,
+			[runId, fromStatuses, changes.status, changes.error ?? null],
+		);
+		return result.rowCount;
+	}
+
+	async countItems(runId: number): Promise<IQueueCounts> {
+		const counts = await this.db.one<Record<keyof IQueueCounts, string>>(
+			`SELECT
+				COUNT(*) as total,
+				COUNT(*) FILTER (WHERE status = 'pending') as pending,
+				COUNT(*) FILTER (WHERE status = 'processing') as processing,
+				COUNT(*) FILTER (WHERE status = 'completed') as completed,
+				COUNT(*) FILTER (WHERE status = 'failed') as failed,
+				COUNT(*) FILTER (WHERE status = 'canceled') as canceled,
+				COUNT(*) FILTER (WHERE status = 'skipped') as skipped
+			FROM ${this.t.queue}
+			WHERE run_id = $1`,
+			[runId],
+		);
+
+		return {
+			total: parseInt(counts.total),
+			pending: parseInt(counts.pending),
+			processing: parseInt(counts.processing),
+			completed: parseInt(counts.completed),
+			failed: parseInt(counts.failed),
+			canceled: parseInt(counts.canceled),
+			skipped: parseInt(counts.skipped),
+		};
+	}
+
+	async getItems(runId: number, query: IQueueItemsQuery = {}): Promise<ICrawlerQueueItem[]> {
+		const { status, includeHtml = false, limit = 0, offset = 0 } = query;
+
+		return this.db.manyOrNone<ICrawlerQueueItem>(
+			`SELECT ${queueColumnsSQL}${includeHtml ? ', response_html, screenshot' : ''}
+			FROM ${this.t.queue}
+			WHERE run_id = $1 ${status ? 'AND status = $2' : ''}
+			ORDER BY id ASC` +
+			(limit > 0 ? ' LIMIT $3 OFFSET $4' : ' OFFSET $4'),
+			[runId, status, limit, offset],
+		);
+	}
+
+	async getItemStats(runId: number): Promise<IQueueItemStats[]> {
+		return this.db.manyOrNone<IQueueItemStats>(
+			`SELECT url, status, depth, response_status_code, error, latency_ms, response_bytes, inlink_count
+			FROM ${this.t.queue}
+			WHERE run_id = $1`,
+			[runId],
+		);
+	}
+
+	async getLastItemUpdate(runId: number): Promise<Date | null> {
+		const row = await this.db.one<{ updated_at: Date | null }>(
+			`SELECT MAX(updated_at) as updated_at FROM ${this.t.queue} WHERE run_id = $1`,
+			[runId],
+		);
+		return row.updated_at;
+	}
+
+	async getCompletedItem(runId: number, url: string): Promise<ICrawlerQueueItem | null> {
+		return this.db.oneOrNone<ICrawlerQueueItem>(
+			`SELECT ${queueColumnsSQL} FROM ${this.t.queue}
+			WHERE run_id = $1 AND url = $2 AND status = 'completed'
+			LIMIT 1`,
+			[runId, url],
+		);
+	}
+
+	async getItemByUrl(runId: number, url: string): Promise<ICrawlerQueueItem | null> {
+		return this.db.oneOrNone<ICrawlerQueueItem>(
+			`SELECT ${queueColumnsSQL} FROM ${this.t.queue}
+			WHERE run_id = $1 AND url = $2
+			LIMIT 1`,
+			[runId, url],
+		);
+	}
+
+	async countChanges(runId: number, previousRunId: number): Promise<IChangeCounts> {
+		const changes = await this.db.one<Record<keyof IChangeCounts, string>>(
+			`SELECT
+				COUNT(*) FILTER (WHERE change_status = 'new') as new,
+				COUNT(*) FILTER (WHERE change_status = 'changed') as changed,
+				COUNT(*) FILTER (WHERE change_status = 'unchanged') as unchanged,
+				(SELECT COUNT(*) ${removedPagesFromSQL(this.t)}) as removed
+			FROM ${this.t.queue}
+			WHERE run_id = $1 AND status = 'completed'`,
+			[runId, previousRunId],
+		);
+
+		return {
+			new: parseInt(changes.new),
+			changed: parseInt(changes.changed),
+			unchanged: parseInt(changes.unchanged),
+			removed: parseInt(changes.removed),
+		};
+	}
+
+	async getRemovedPages(runId: number, previousRunId: number): Promise<Array<Pick<ICrawlerQueueItem, 'url' | 'page_title'>>> {
+		return this.db.manyOrNone(
+			`SELECT p.url, p.page_title ${removedPagesFromSQL(this.t)} ORDER BY p.id ASC`,
+			[runId, previousRunId],
+		);
+	}
+
+	async setPageLinks(runId: number, fromUrl: string, links: INewCrawlerLink[]): Promise<void> {
+		await this.db.tx(async (t: ITask<any>) => {
+			await t.none(`DELETE FROM ${this.t.links} WHERE run_id = $1 AND from_url = $2`, [runId, fromUrl]);
+
+			if (links.length > 0) {
+				await t.none(
+					`INSERT INTO ${this.t.links} (run_id, from_url, to_url, anchor_text, rel, nofollow)
+					SELECT $1, $2, v.to_url, v.anchor_text, v.rel, v.nofollow
+					FROM jsonb_to_recordset($3) AS v(to_url text, anchor_text text, rel text, nofollow boolean)`,
+					[runId, fromUrl, JSON.stringify(links)],
+				);
+			}
+		});
+	}
+
+	async getLinks(runId: number, limit: number = 0, offset: number = 0): Promise<ICrawlerLink[]> {
+		return this.db.manyOrNone<ICrawlerLink>(
+			`SELECT * FROM ${this.t.links}
+			WHERE run_id = $1
+			ORDER BY id ASC` +
+			(limit > 0 ? ' LIMIT $2 OFFSET $3' : ' OFFSET $3'),
+			[runId, limit, offset],
+		);
+	}
+
+	async getOrphanPages(runId: number): Promise<Array<Pick<ICrawlerQueueItem, 'url' | 'depth' | 'parent_url' | 'page_title'>>> {
+		return this.db.manyOrNone(
+			`SELECT q.url, q.depth, q.parent_url, q.page_title
+			FROM ${this.t.queue} q
+			WHERE q.run_id = $1 AND q.status = 'completed'
+				AND NOT EXISTS (
+					SELECT 1 FROM ${this.t.links} l
+					WHERE l.run_id = q.run_id AND l.to_url = q.url AND l.from_url <> q.url
+				)
+			ORDER BY q.id ASC`,
+			[runId],
+		);
+	}
+
+	async getBrokenLinks(runId: number): Promise<IBrokenLink[]> {
+		return this.db.manyOrNone<IBrokenLink>(
+			`SELECT l.from_url, l.to_url, l.anchor_text, l.nofollow, q.status, q.response_status_code, q.error
+			FROM ${this.t.links} l
+			JOIN ${this.t.queue} q ON q.run_id = l.run_id AND q.url = l.to_url
+			WHERE l.run_id = $1 AND (q.status = 'failed' OR q.response_status_code >= 400)
+			ORDER BY l.id ASC`,
+			[runId],
+		);
+	}
+
+	async saveLinkCheck(runId: number, check: INewLinkCheck): Promise<void> {
+		await this.db.none(
+			`INSERT INTO ${this.t.linkChecks} (run_id, url, status_code, final_url, redirect_chain, problem, error, latency_ms)
+			VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+			ON CONFLICT (run_id, url) DO NOTHING`,
+			[runId, check.url, check.status_code, check.final_url, toJson(check.redirect_chain), check.problem, check.error, check.latency_ms],
+		);
+	}
+
+	async getLinkCheck(runId: number, url: string): Promise<ICrawlerLinkCheck | null> {
+		return this.db.oneOrNone<ICrawlerLinkCheck>(
+			`SELECT * FROM ${this.t.linkChecks} WHERE run_id = $1 AND url = $2`,
+			[runId, url],
+		);
+	}
+
+	async getBrokenExternalLinks(runId: number): Promise<IBrokenExternalLink[]> {
+		return this.db.manyOrNone<IBrokenExternalLink>(
+			`SELECT l.from_url, l.to_url, l.anchor_text, l.nofollow, c.status_code, c.final_url, c.redirect_chain, c.problem, c.error
+			FROM ${this.t.links} l
+			JOIN ${this.t.linkChecks} c ON c.run_id = l.run_id AND c.url = l.to_url
+			WHERE l.run_id = $1 AND c.problem IS NOT NULL
+			ORDER BY l.id ASC`,
+			[runId],
+		);
+	}
+
+	async log(runId: number, level: CrawlerLogLevel, message: string, metadata?: any): Promise<void> {
+		await this.db.none(
+			`INSERT INTO ${this.t.logs} (run_id, level, message, metadata)
+			VALUES ($1, $2, $3, $4)`,
+			[runId, level, message, toJson(metadata)],
+		);
+	}
+
+	async getLogs(runId: number, levels: string[] = []): Promise<ICrawlerLog[]> {
+		return levels.length > 0
+			? this.db.manyOrNone<ICrawlerLog>(
+				`SELECT * FROM ${this.t.logs} WHERE run_id = $1 AND level IN ($2:csv) ORDER BY id ASC`,
+				[runId, levels],
+			)
+			: this.db.manyOrNone<ICrawlerLog>(
+				`SELECT * FROM ${this.t.logs} WHERE run_id = $1 ORDER BY id ASC`,
+				[runId],
+			);
+	}
+}
@@ -0,0 +1,477 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import type {
+	CrawlerLogLevel,
+	CrawlerQueueStatus,
+	CrawlerRunStatus,
+	IBrokenExternalLink,
+	IBrokenLink,
+	IChangeCounts,
+	ICrawlerLink,
+	ICrawlerLinkCheck,
+	ICrawlerLog,
+	ICrawlerQueueItem,
+	ICrawlerQueueItemChanges,
+	ICrawlerRun,
+	ICrawlerRunChanges,
+	ICrawlerStorage,
+	INewCrawlerLink,
+	INewCrawlerRun,
+	INewLinkCheck,
+	INewQueueItem,
+	IQueueCounts,
+	IQueueItemStats,
+	IQueueItemsQuery,
+} from './CrawlerStorage';
+import { getCrawlerTables, ICrawlerTables, sqliteMigrations } from './CrawlerMigrations';
+
+const queueColumnsSQL = `id, run_id, url, status, parent_url, depth, error, response_status_code, response_final_url,
+	page_title, lastmod, extracted_json, content_markdown, content_hash, change_status, attempts, next_attempt_at, latency_ms, response_bytes, inlink_count, created_at, updated_at`;
+
+const removedPagesFromSQL = (t: ICrawlerTables) => `FROM ${t.queue} p
+	WHERE p.run_id = @previousRunId AND p.status = 'completed'
+	AND NOT EXISTS (
+		SELECT 1 FROM ${t.queue} c
+		WHERE c.run_id = @runId AND c.url = p.url AND c.status = 'completed'
+	)`;
+
+function parseJson(value: string | null): any {
+	return value === null || value === undefined ? null : JSON.parse(value);
+}
+
+function toJson(value: any): string | null {
+	return value === null || value === undefined ? null : JSON.stringify(value);
+}
+
+function toDate(value: string | null): Date | null {
+	return value ? new Date(value) : null;
+}
+
+function toRun(row: any): ICrawlerRun {
+	return {
+		...row,
+		start_urls: parseJson(row.start_urls) ?? [],
+		include_patterns: parseJson(row.include_patterns) ?? [],
+		exclude_patterns: parseJson(row.exclude_patterns) ?? [],
+		crawl_external: row.crawl_external === 1,
+		settings: parseJson(row.settings),
+		options: parseJson(row.options) ?? {},
+		created_at: toDate(row.created_at),
+		updated_at: toDate(row.updated_at),
+		completed_at: toDate(row.completed_at),
+	};
+}
+
+function toQueueItem(row: any): ICrawlerQueueItem {
+	return {
+		...row,
+		extracted_json: parseJson(row.extracted_json),
+		lastmod: toDate(row.lastmod),
+		next_attempt_at: toDate(row.next_attempt_at),
+		created_at: toDate(row.created_at),
+		updated_at: toDate(row.updated_at),
+	};
+}
+
+// SQLite can't bind booleans, dates and objects
+function toSqliteValue(column: string, value: any): any {
+	if (value === undefined) return null;
+	if (column === 'extracted_json' || column === 'options') return toJson(value);
+	if (value instanceof Date) return value.toISOString();
+	return value;
+}
+
+/**
+ * Stores crawler data in a local SQLite file, so crawls work without a Postgres server.
+ * better-sqlite3 is synchronous; concurrent workers of a run never interleave inside a statement.
+ */
+export class SqliteCrawlerStorage implements ICrawlerStorage {
+	private readonly db: BetterSqlite3.Database;
+
+	private readonly t: ICrawlerTables;
+
+	constructor(filePath: string, tablePrefix: string) {
+		// Loaded on demand, so the native module is only required when the SQLite backend is used
+		let Database: typeof BetterSqlite3;
+		try {
+			Database = require('better-sqlite3');
+		} catch (error) {
+			throw new Error(`SQLite storage is not available (${error.message}). It needs the optional better-sqlite3 package and Node.js 20 or newer, use the Postgres or In-Memory storage instead`);
+		}
+
+		this.db = new Database(filePath);
+		this.db.pragma('journal_mode = WAL');
+		this.db.pragma('busy_timeout = 5000');
+		this.db.pragma('foreign_keys = ON');
+		this.t = getCrawlerTables(tablePrefix, (name) => `"${name}"`);
+	}
+
+	async migrate(): Promise<string[]> {
+		// IMMEDIATE takes the write lock up front, so two processes can't apply the same migrations
+		return this.db.transaction(() => {
+			this.db.exec(
+				`CREATE TABLE IF NOT EXISTS ${this.t.schemaVersion} (
+					version INTEGER PRIMARY KEY,
+					name TEXT NOT NULL,
+					applied_at TEXT NOT NULL
+				)`,
+			);
+
+			const { version } = this.db.prepare(
+				`SELECT COALESCE(MAX(version), 0) AS version FROM ${this.t.schemaVersion}`,
+			).get() as { version: number };
+
+			const pending = sqliteMigrations.filter((migration) => migration.version > version);
+			for (const migration of pending) {
+				this.db.exec(migration.up(this.t));
+				this.db.prepare(
+					`INSERT INTO ${this.t.schemaVersion} (version, name, applied_at) VALUES (?, ?, ?)`,
+				).run(migration.version, migration.name, new Date().toISOString());
+			}
+
+			return pending.map((migration) => migration.name);
+		}).immediate();
+	}
+
+	async dropTables(): Promise<void> {
+		this.db.exec(
+			`DROP TABLE IF EXISTS ${this.t.linkChecks};
+			DROP TABLE IF EXISTS ${this.t.links};
+			DROP TABLE IF EXISTS ${this.t.logs};
+			DROP TABLE IF EXISTS ${this.t.queue};
+			DROP TABLE IF EXISTS ${this.t.runs};
+			DROP TABLE IF EXISTS ${this.t.schemaVersion};`,
+		);
+	}
+
+	async close(): Promise<void> {
+		this.db.close();
+	}
+
+	// URLs which are already queued for the run are skipped, returns the number of inserted URLs
+	private insertQueueItems(runId: number, items: INewQueueItem[]): number {
+		const now = new Date().toISOString();
+		const insert = this.db.prepare(
+			`INSERT OR IGNORE INTO ${this.t.queue} (run_id, url, status, parent_url, depth, lastmod, created_at, updated_at)
+			VALUES (?, ?, 'pending', ?, ?, ?, ?, ?)`,
+		);
+
+		let inserted = 0;
+		for (const item of items) {
+			inserted += insert.run(
+				runId,
+				item.url,
+				item.parent_url ?? null,
+				item.depth,
+				item.lastmod ? new Date(item.lastmod).toISOString() : null,
+				now,
+				now,
+			).changes;
+		}
+		return inserted;
+	}
+
+	async createRun(run: INewCrawlerRun, seeds: INewQueueItem[]): Promise<ICrawlerRun> {
+		return this.db.transaction(() => {
+			const now = new Date().toISOString();
+			const created = this.db.prepare(
+				`INSERT INTO ${this.t.runs} (
+					start_url, start_urls, status, max_depth, max_pages,
+					concurrency, include_patterns, exclude_patterns, crawl_external,
+					settings, options, previous_run_id, created_at, updated_at
+				) VALUES (?, ?, 'running', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`,
+			).get(
+				run.start_url, toJson(run.start_urls), run.max_depth, run.max_pages,
+				run.concurrency, toJson(run.include_patterns), toJson(run.exclude_patterns), run.crawl_external ? 1 : 0,
+				toJson(run.settings), toJson(run.options), run.previous_run_id, now, now,
+			);
+
+			const createdRun = toRun(created);
+			this.insertQueueItems(createdRun.id, seeds);
+			return createdRun;
+		})();
+	}
+
+	async getRun(runId: number): Promise<ICrawlerRun | null> {
+		const row = this.db.prepare(`SELECT * FROM ${this.t.runs} WHERE id = ?`).get(runId);
+		return row ? toRun(row) : null;
+	}
+
+	async updateRun(runId: number, changes: ICrawlerRunChanges, fromStatuses?: CrawlerRunStatus[]): Promise<ICrawlerRun | null> {
+		const columns = Object.keys(changes) as Array<keyof ICrawlerRunChanges>;
+		const row = this.db.prepare(
+			`UPDATE ${this.t.runs}
+			SET ${[...columns, 'updated_at'].map((column) => `${column} = @${column}`).join(', ')}
+			WHERE id = @id ${fromStatuses ? `AND status IN (${fromStatuses.map(() => '?').join(', ')})` : ''}
+			RETURNING *`,
+		).get(
+			{
+				...Object.fromEntries(columns.map((column) => [column, toSqliteValue(column, changes[column])])),
+				updated_at: new Date().toISOString(),
+				id: runId,
+			},
+			...(fromStatuses ?? []),
+		);
+
+		return row ? toRun(row) : null;
+	}
+
+	async enqueue(runId: number, items: INewQueueItem[]): Promise<number> {
+		return this.db.transaction(() => this.insertQueueItems(runId, items))();
+	}
+
+	async addInlinks(runId: number, urls: string[]): Promise<void> {
+		if (urls.length === 0) return;
+
+		// URLs are passed as one JSON array, link lists can exceed the bound parameter limit
+		this.db.prepare(
+			`UPDATE ${this.t.queue}
+			SET inlink_count = inlink_count + 1
+			WHERE run_id = ? AND url IN (SELECT value FROM json_each(?))`,
+		).run(runId, JSON.stringify(Array.from(new Set(urls))));
+	}
+
+	async claimNextItem(runId: number): Promise<ICrawlerQueueItem | null> {
+		const now = new Date().toISOString();
+		const row = this.db.prepare(
+			`UPDATE ${this.t.queue}
+			SET status = 'processing', updated_at = @now
+			WHERE id = (
+				SELECT id FROM ${this.t.queue}
+				WHERE run_id = @runId AND status = 'pending'
+					AND (next_attempt_at IS NULL OR next_attempt_at <= @now)
+				ORDER BY depth ASC, created_at ASC, id ASC
+				LIMIT 1
+			)
+			RETURNING ${queueColumnsSQL}`,
+		).get({ now, runId });
+
+		return row ? toQueueItem(row) : null;
+	}
+
+	async updateItem(itemId: number, changes: ICrawlerQueueItemChanges, fromStatuses?: CrawlerQueueStatus[]): Promise<void> {
+		const columns = Object.keys(changes) as Array<keyof ICrawlerQueueItemChanges>;
+		this.db.prepare(
+			`UPDATE ${this.t.queue}
+			SET ${[...columns, 'updated_at'].map((column) => `${column} = @${column}`).join(', ')}
+			WHERE id = @id ${fromStatuses ? `AND status IN (${fromStatuses.map(() => '?').join(', ')})` : ''}`,
+		).run(
+			{
+				...Object.fromEntries(columns.map((column) => [column, toSqliteValue(column, changes[column])])),
+				updated_at: new Date().toISOString(),
+				id: itemId,
+			},
+			...(fromStatuses ?? []),
+		);
+	}
+
+	async updateItems(
+		runId: number,
+		fromStatuses: CrawlerQueueStatus[],
+		changes: Pick<ICrawlerQueueItemChanges, 'status' | 'error'>,
+	): Promise<number> {
+		const result = this.db.prepare(
+			`UPDATE ${this.t.queue}
+			SET status = ?, error = ?, updated_at = ?
+			WHERE run_id = ? AND status IN (${fromStatuses.map(() => '?').join(', ')})`,
+		).run(changes.status, changes.error ?? null, new Date().toISOString(), runId, ...fromStatuses);
+
+		return result.changes;
+	}
+
+	async countItems(runId: number): Promise<IQueueCounts> {
+		return this.db.prepare(
+			`SELECT
+				COUNT(*) as total,
+				COUNT(*) FILTER (WHERE status = 'pending') as pending,
+				COUNT(*) FILTER (WHERE status = 'processing') as processing,
+				COUNT(*) FILTER (WHERE status = 'completed') as completed,
+				COUNT(*) FILTER (WHERE status = 'failed') as failed,
+				COUNT(*) FILTER (WHERE status = 'canceled') as canceled,
+				COUNT(*) FILTER (WHERE status = 'skipped') as skipped
+			FROM ${this.t.queue}
+			WHERE run_id = ?`,
+		).get(runId) as IQueueCounts;
+	}
+
+	async getItems(runId: number, query: IQueueItemsQuery = {}): Promise<ICrawlerQueueItem[]> {
+		const { status, includeHtml = false, limit = 0, offset = 0 } = query;
+
+		const rows = this.db.prepare(
+			`SELECT ${queueColumnsSQL}${includeHtml ? ', response_html, screenshot' : ''}
+			FROM ${this.t.queue}
+			WHERE run_id = @runId ${status ? 'AND status = @status' : ''}
+			ORDER BY id ASC
+			LIMIT @limit OFFSET @offset`,
+		).all({
+			runId,
+			...(status ? { status } : {}),
+			// A negative LIMIT means no limit in SQLite
+			limit: limit > 0 ? limit : -1,
+			offset,
+		});
+
+		return rows.map(toQueueItem);
+	}
+
+	async getItemStats(runId: number): Promise<IQueueItemStats[]> {
+		return this.db.prepare(
+			`SELECT url, status, depth, response_status_code, error, latency_ms, response_bytes, inlink_count
+			FROM ${this.t.queue}
+			WHERE run_id = ?`,
+		).all(runId) as IQueueItemStats[];
+	}
+
+	async getLastItemUpdate(runId: number): Promise<Date | null> {
+		const row = this.db.prepare(
+			`SELECT MAX(updated_at) as updated_at FROM ${this.t.queue} WHERE run_id = ?`,
+		).get(runId) as { updated_at: string | null };
+		return toDate(row.updated_at);
+	}
+
+	async getCompletedItem(runId: number, url: string): Promise<ICrawlerQueueItem | null> {
+		const row = this.db.prepare(
+			`SELECT ${queueColumnsSQL} FROM ${this.t.queue}
+			WHERE run_id = ? AND url = ? AND status = 'completed'
+			LIMIT 1`,
+		).get(runId, url);
+
+		return row ? toQueueItem(row) : null;
+	}
+
+	async getItemByUrl(runId: number, url: string): Promise<ICrawlerQueueItem | null> {
+		const row = this.db.prepare(
+			`SELECT ${queueColumnsSQL} FROM ${this.t.queue}
+			WHERE run_id = ? AND url = ?
+			LIMIT 1`,
+		).get(runId, url);
+
+		return row ? toQueueItem(row) : null;
+	}
+
+	async countChanges(runId: number, previousRunId: number): Promise<IChangeCounts> {
+		return this.db.prepare(
+			`SELECT
+				COUNT(*) FILTER (WHERE change_status = 'new') as new,
+				COUNT(*) FILTER (WHERE change_status = 'changed') as changed,
+				COUNT(*) FILTER (WHERE change_status = 'unchanged') as unchanged,
+				(SELECT COUNT(*) ${removedPagesFromSQL(this.t)}) as removed
+			FROM ${this.t.queue}
+			WHERE run_id = @runId AND status = 'completed'`,
+		).get({ runId, previousRunId }) as IChangeCounts;
+	}
+
+	async getRemovedPages(runId: number, previousRunId: number): Promise<Array<Pick<ICrawlerQueueItem, 'url' | 'page_title'>>> {
+		return this.db.prepare(
+			`SELECT p.url, p.page_title ${removedPagesFromSQL(this.t)} ORDER BY p.id ASC`,
+		).all({ runId, previousRunId }) as Array<Pick<ICrawlerQueueItem, 'url' | 'page_title'>>;
+	}
+
+	async setPageLinks(runId: number, fromUrl: string, links: INewCrawlerLink[]): Promise<void> {
+		this.db.transaction(() => {
+			this.db.prepare(`DELETE FROM ${this.t.links} WHERE run_id = ? AND from_url = ?`).run(runId, fromUrl);
+
+			const now = new Date().toISOString();
+			const insert = this.db.prepare(
+				`INSERT INTO ${this.t.links} (run_id, from_url, to_url, anchor_text, rel, nofollow, created_at)
+				VALUES (?, ?, ?, ?, ?, ?, ?)`,
+			);
+			for (const link of links) {
+				insert.run(runId, fromUrl, link.to_url, link.anchor_text, link.rel, link.nofollow ? 1 : 0, now);
+			}
+		})();
+	}
+
+	async getLinks(runId: number, limit: number = 0, offset: number = 0): Promise<ICrawlerLink[]> {
+		const rows = this.db.prepare(
+			`SELECT * FROM ${this.t.links}
+			WHERE run_id = ?
+			ORDER BY id ASC
+			LIMIT ? OFFSET ?`,
+		).all(runId, limit > 0 ? limit : -1, offset) as any[];
+
+		return rows.map((row) => ({ ...row, nofollow: row.nofollow === 1, created_at: toDate(row.created_at) }));
+	}
+
+	async getOrphanPages(runId: number): Promise<Array<Pick<ICrawlerQueueItem, 'url' | 'depth' | 'parent_url' | 'page_title'>>> {
+		return this.db.prepare(
+			`SELECT q.url, q.depth, q.parent_url, q.page_title
+			FROM ${this.t.queue} q
+			WHERE q.run_id = ? AND q.status = 'completed'
+				AND NOT EXISTS (
+					SELECT 1 FROM ${this.t.links} l
+					WHERE l.run_id = q.run_id AND l.to_url = q.url AND l.from_url <> q.url
+				)
+			ORDER BY q.id ASC`,
+		).all(runId) as Array<Pick<ICrawlerQueueItem, 'url' | 'depth' | 'parent_url' | 'page_title'>>;
+	}
+
+	async getBrokenLinks(runId: number): Promise<IBrokenLink[]> {
+		const rows = this.db.prepare(
+			`SELECT l.from_url, l.to_url, l.anchor_text, l.nofollow, q.status, q.response_status_code, q.error
+			FROM ${this.t.links} l
+			JOIN ${this.t.queue} q ON q.run_id = l.run_id AND q.url = l.to_url
+			WHERE l.run_id = ? AND (q.status = 'failed' OR q.response_status_code >= 400)
+			ORDER BY l.id ASC`,
+		).all(runId) as any[];
+
+		return rows.map((row) => ({ ...row, nofollow: row.nofollow === 1 }));
+	}
+
+	async saveLinkCheck(runId: number, check: INewLinkCheck): Promise<void> {
+		this.db.prepare(
+			`INSERT INTO ${this.t.linkChecks} (run_id, url, status_code, final_url, redirect_chain, problem, error, latency_ms, created_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+			ON CONFLICT (run_id, url) DO NOTHING`,
+		).run(
+			runId,
+			check.url,
+			check.status_code,
+			check.final_url,
+			JSON.stringify(check.redirect_chain),
+			check.problem,
+			check.error,
+			check.latency_ms,
+			new Date().toISOString(),
+		);
+	}
+
+	async getLinkCheck(runId: number, url: string): Promise<ICrawlerLinkCheck | null> {
+		const row = this.db.prepare(
+			`SELECT * FROM ${this.t.linkChecks} WHERE run_id = ? AND url = ?`,
+		).get(runId, url) as any;
+
+		return row ? { ...row, redirect_chain: parseJson(row.redirect_chain) ?? [], created_at: toDate(row.created_at) } : null;
+	}
+
+	async getBrokenExternalLinks(runId: number): Promise<IBrokenExternalLink[]> {
+		const rows = this.db.prepare(
+			`SELECT l.from_url, l.to_url, l.anchor_text, l.nofollow, c.status_code, c.final_url, c.redirect_chain, c.problem, c.error
+			FROM ${this.t.links} l
+			JOIN ${this.t.linkChecks} c ON c.run_id = l.run_id AND c.url = l.to_url
+			WHERE l.run_id = ? AND c.problem IS NOT NULL
+			ORDER BY l.id ASC`,
+		).all(runId) as any[];
+
+		return rows.map((row) => ({ ...row, nofollow: row.nofollow === 1, redirect_chain: parseJson(row.redirect_chain) ?? [] }));
+	}
+
+	async log(runId: number, level: CrawlerLogLevel, message: string, metadata?: any): Promise<void> {
+		this.db.prepare(
+			`INSERT INTO ${this.t.logs} (run_id, level, message, metadata, created_at) VALUES (?, ?, ?, ?, ?)`,
+		).run(runId, level, message, toJson(metadata), new Date().toISOString());
+	}
+
+	async getLogs(runId: number, levels: string[] = []): Promise<ICrawlerLog[]> {
+		const rows = this.db.prepare(
+			`SELECT * FROM ${this.t.logs}
+			WHERE run_id = ? ${levels.length > 0 ? `AND level IN (${levels.map(() => '?').join(', ')})` : ''}
+			ORDER BY id ASC`,
+		).all(runId, ...levels) as any[];
+
+		return rows.map((row) => ({
+			...row,
+			metadata: parseJson(row.metadata),
+			created_at: toDate(row.created_at),
+		}));
+	}
+}
@@ -32,35 +32,47 @@ export const extractContentProperties: INodeProperties[] = [
 	},
 ];
 
-export async function executeExtractContent(
-	this: IExecuteFunctions,
-	items: INodeExecutionData[],
-	i: number,
-): Promise<INodeExecutionData> {
-	const html = this.getNodeParameter('html', i) as string;
-	const outputMarkdown = this.getNodeParameter('outputMarkdown', i, false) as boolean;
-
+/**
+ * Extracts the primary content of an HTML page with Readability.
+ * Returns null when Readability can't find any content.
+ */
+export function extractPrimaryContent(html: string, outputMarkdown: boolean) {
 	// Create virtual DOM
 	const dom = new JSDOM(html);
 	const reader = new Readability(dom.window.document);
 	const article = reader.parse();
 
 	if (!article) {
-		throw new Error('Failed to extract content from the HTML');
+		return null;
 	}
 
 	// If markdown output is requested, only transform the content field
 	if (outputMarkdown) {
 		return {
-			json: {
-				...article,
-				content: NodeHtmlMarkdown.translate(article.content || ''),
-			},
+			...article,
+			content: NodeHtmlMarkdown.translate(article.content || ''),
 		};
 	}
 
 	// Otherwise return the full article object as-is
+	return article;
+}
+
+export async function executeExtractContent(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+	i: number,
+): Promise<INodeExecutionData> {
+	const html = this.getNodeParameter('html', i) as string;
+	const outputMarkdown = this.getNodeParameter('outputMarkdown', i, false) as boolean;
+
+	const article = extractPrimaryContent(html, outputMarkdown);
+
+	if (!article) {
+		throw new Error('Failed to extract content from the HTML');
+	}
+
 	return {
 		json: article,
 	};
-} 
\ No newline at end of file
+}
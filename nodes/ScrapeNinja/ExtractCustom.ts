@@ -35,16 +35,13 @@ export const extractCustomProperties: INodeProperties[] = [
 	},
 ];
 
-export async function executeExtractCustom(
-	this: IExecuteFunctions,
-	items: INodeExecutionData[],
-	i: number,
-): Promise<INodeExecutionData> {
-	const html = this.getNodeParameter('html', i) as string;
-	let extractionFunction = this.getNodeParameter('extractionFunction', i) as string;
-
+/**
+ * Runs a user-provided extraction function in a VM2 sandbox. The function receives the HTML
+ * and the cheerio module and must return a JSON-serializable value.
+ */
+export function runCustomExtractor(extractionFunction: string, html: string): any {
 	// Remove markdown code block markers if present
-	extractionFunction = extractionFunction
+	const code = extractionFunction
 		.replace(/^```(javascript|js)?\n/, '') // Remove opening ```javascript or ```js
 		.replace(/^```\n/, '') // Remove opening ``` without language
 		.replace(/\n```$/, '') // Remove trailing ```
@@ -65,7 +62,7 @@ export async function executeExtractCustom(
 		// Wrap the extraction function in a module exports and pass cheerio directly
 		const wrappedCode = `
 			module.exports = function(html, cheerioInstance) {
-				const extractFn = ${extractionFunction};
+				const extractFn = ${code};
 				return extractFn(html, cheerioInstance);
 			}
 		`;
@@ -74,12 +71,21 @@ export async function executeExtractCustom(
 		const extractFn = vm.run(wrappedCode);
 
 		// Execute the extracted function with our parameters
-		const result = extractFn(html, cheerio);
-
-		return {
-			json: result,
-		};
+		return extractFn(html, cheerio);
 	} catch (error) {
 		throw new Error(`Failed to execute extraction function: ${error.message}`);
 	}
-} 
\ No newline at end of file
+}
+
+export async function executeExtractCustom(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+	i: number,
+): Promise<INodeExecutionData> {
+	const html = this.getNodeParameter('html', i) as string;
+	const extractionFunction = this.getNodeParameter('extractionFunction', i) as string;
+
+	return {
+		json: runCustomExtractor(extractionFunction, html),
+	};
+}
@@ -0,0 +1,143 @@
+import type { IScrapeResult } from './ScrapeNinjaClient';
+import type { IBrokenExternalLink, IBrokenLink, INewLinkCheck, LinkCheckProblem } from './CrawlerStorage';
+
+export const DEFAULT_MAX_REDIRECTS = 10;
+
+const REDIRECT_STATUS_CODES = [301, 302, 303, 307, 308];
+
+function getHeaderValue(headers: string[], name: string): string | null {
+	const header = (headers ?? []).find((line) => line.toLowerCase().startsWith(`${name.toLowerCase()}:`));
+	return header ? header.substring(header.indexOf(':') + 1).trim() || null : null;
+}
+
+function isTimeoutError(error: any): boolean {
+	if (['ETIMEDOUT', 'ECONNABORTED', 'ESOCKETTIMEDOUT'].includes(error?.code)) return true;
+	return /timed?\s*out/i.test(`${error?.message ?? error} ${JSON.stringify(error?.response?.data ?? '')}`);
+}
+
+/**
+ * Checks a single link without crawling it. Redirects are followed hop by hop, so that the
+ * redirect chain is recorded and loops are detected instead of failing as a generic error.
+ * fetchPage must not follow redirects itself. Request failures are returned as a problem, never thrown.
+ */
+export async function checkLink(
+	fetchPage: (url: string) => Promise<IScrapeResult>,
+	url: string,
+	maxRedirects: number = DEFAULT_MAX_REDIRECTS,
+): Promise<INewLinkCheck> {
+	const redirectChain = [url];
+	const startTime = Date.now();
+	let currentUrl = url;
+	let statusCode: number | null = null;
+
+	const result = (problem: LinkCheckProblem | null, error: string | null = null): INewLinkCheck => ({
+		url,
+		status_code: statusCode,
+		final_url: currentUrl,
+		redirect_chain: redirectChain.length > 1 ? redirectChain : [],
+		problem,
+		error,
+		latency_ms: Date.now() - startTime,
+	});
+
+	try {
+		for (;;) {
+			const { info } = await fetchPage(currentUrl);
+			statusCode = info.statusCode;
+
+			const location = REDIRECT_STATUS_CODES.includes(statusCode) ? getHeaderValue(info.headers, 'location') : null;
+			if (!location) {
+				return result(statusCode >= 400 ? 'http_error' : null);
+			}
+
+			const nextUrl = new URL(location, currentUrl).toString();
+			if (redirectChain.includes(nextUrl)) {
+				redirectChain.push(nextUrl);
+				return result('redirect_loop', `Redirect loop back to "${nextUrl}"`);
+			}
+			if (redirectChain.length > maxRedirects) {
+				return result('too_many_redirects', `More than ${maxRedirects} redirects`);
+			}
+
+			redirectChain.push(nextUrl);
+			currentUrl = nextUrl;
+		}
+	} catch (error) {
+		return result(isTimeoutError(error) ? 'timeout' : 'request_error', error.message);
+	}
+}
+
+export interface IBrokenLinkReportEntry {
+	url: string;
+	anchor_text: string | null;
+	nofollow: boolean;
+	external: boolean;
+	problem: LinkCheckProblem;
+	status_code: number | null;
+	final_url: string | null;
+	redirect_chain: string[];
+	error: string | null;
+}
+
+export interface IBrokenLinkReportPage {
+	page_url: string;
+	broken_links_count: number;
+	broken_links: IBrokenLinkReportEntry[];
+}
+
+// Crawled pages which failed only keep the error message, redirect loops end in a redirect limit error there
+function getInternalLinkProblem(link: IBrokenLink): LinkCheckProblem {
+	if ((link.response_status_code ?? 0) >= 400) return 'http_error';
+	if (isTimeoutError(link.error ?? '')) return 'timeout';
+	return /redirect/i.test(link.error ?? '') ? 'too_many_redirects' : 'request_error';
+}
+
+/**
+ * Groups broken links by the page they were found on. Internal links are judged by the crawl result
+ * of the linked page, external links by their link check.
+ */
+export function buildBrokenLinkReport(
+	internalLinks: IBrokenLink[],
+	externalLinks: IBrokenExternalLink[],
+): IBrokenLinkReportPage[] {
+	const pages = new Map<string, IBrokenLinkReportEntry[]>();
+	const addEntry = (fromUrl: string, entry: IBrokenLinkReportEntry) => {
+		const entries = pages.get(fromUrl) ?? [];
+		entries.push(entry);
+		pages.set(fromUrl, entries);
+	};
+
+	for (const link of internalLinks) {
+		addEntry(link.from_url, {
+			url: link.to_url,
+			anchor_text: link.anchor_text,
+			nofollow: link.nofollow,
+			external: false,
+			problem: getInternalLinkProblem(link),
+			status_code: link.response_status_code,
+			final_url: null,
+			redirect_chain: [],
+			error: link.error,
+		});
+	}
+
+	for (const link of externalLinks) {
+		addEntry(link.from_url, {
+			url: link.to_url,
+			anchor_text: link.anchor_text,
+			nofollow: link.nofollow,
+			external: true,
+			problem: link.problem as LinkCheckProblem,
+			status_code: link.status_code,
+			final_url: link.final_url,
+			redirect_chain: link.redirect_chain,
+			error: link.error,
+		});
+	}
+
+	return Array.from(pages.entries()).map(([pageUrl, entries]) => ({
+		page_url: pageUrl,
+		broken_links_count: entries.length,
+		broken_links: entries,
+	}));
+}
@@ -0,0 +1,111 @@
+import * as cheerio from 'cheerio';
+import type { ICrawlerOptions, ILinkSelector, LinkSource } from './types';
+
+export const DEFAULT_LINK_SOURCES: LinkSource[] = ['anchors'];
+
+const LINK_SOURCE_SELECTORS: Record<Exclude<LinkSource, 'onclick'>, ILinkSelector[]> = {
+	anchors: [{ selector: 'a[href]', attribute: 'href' }],
+	pagination: [
+		{ selector: 'link[rel~="next"][href], link[rel~="prev"][href]', attribute: 'href' },
+		{ selector: 'a[rel~="next"][href], a[rel~="prev"][href]', attribute: 'href' },
+	],
+	areas: [{ selector: 'area[href]', attribute: 'href' }],
+	iframes: [{ selector: 'iframe[src], frame[src]', attribute: 'src' }],
+	dataHref: [{ selector: '[data-href]', attribute: 'data-href' }],
+};
+
+// location.href = '/page', window.location = "/page", location.assign('/page'), window.open('/page')
+const ONCLICK_URL_REGEX = /(?:location(?:\.href)?\s*=\s*|location\.(?:assign|replace)\s*\(\s*|window\.open\s*\(\s*)(['"])(.+?)\1/g;
+
+/**
+ * Returns the URL relative links of the page are resolved against: the <base href> of the page
+ * when present and valid, the page URL otherwise.
+ */
+export function getLinkBaseUrl($: ReturnType<typeof cheerio.load>, pageUrl: string): string {
+	const baseHref = $('base[href]').first().attr('href')?.trim();
+	if (!baseHref) return pageUrl;
+
+	try {
+		return new URL(baseHref, pageUrl).toString();
+	} catch {
+		return pageUrl;
+	}
+}
+
+export interface IExtractedLink {
+	// Link value as written in the HTML, not resolved
+	href: string;
+	// Visible text of the element, or its alt/title attribute
+	text: string | null;
+	rel: string | null;
+}
+
+const MAX_ANCHOR_TEXT_LENGTH = 500;
+
+function getLinkText($: ReturnType<typeof cheerio.load>, element: any): string | null {
+	const $element = $(element);
+	const text = ($element.text() || $element.attr('alt') || $element.attr('title') || $element.find('img[alt]').first().attr('alt') || '')
+		.replace(/\s+/g, ' ')
+		.trim();
+	return text ? text.substring(0, MAX_ANCHOR_TEXT_LENGTH) : null;
+}
+
+/**
+ * Throws when one of the selectors can't be parsed. They are run against an empty document,
+ * so an invalid custom selector is reported once before the crawl instead of failing every page.
+ */
+export function validateLinkSelectors(selectors: ILinkSelector[]): void {
+	const $ = cheerio.load('');
+	for (const { selector } of selectors) {
+		if (!selector) continue;
+		try {
+			$(selector);
+		} catch (error) {
+			throw new Error(`"${selector}": ${error.message}`);
+		}
+	}
+}
+
+/**
+ * Collects links from the configured link sources and custom selectors. Every href is returned once,
+ * with the text and rel attribute of the first element linking to it.
+ */
+export function collectLinks(
+	$: ReturnType<typeof cheerio.load>,
+	options: Pick<ICrawlerOptions, 'linkSources' | 'customLinkSelectors'>,
+): IExtractedLink[] {
+	const sources = options.linkSources ?? DEFAULT_LINK_SOURCES;
+	const links = new Map<string, IExtractedLink>();
+
+	const addLink = (href: string | undefined, element: any) => {
+		href = href?.trim();
+		if (!href || links.has(href)) return;
+		links.set(href, {
+			href,
+			text: getLinkText($, element),
+			rel: $(element).attr('rel')?.trim() || null,
+		});
+	};
+
+	const selectors = [
+		...sources.flatMap((source) => source === 'onclick' ? [] : LINK_SOURCE_SELECTORS[source] ?? []),
+		...(options.customLinkSelectors ?? []).filter((custom) => custom.selector && custom.attribute),
+	];
+
+	for (const { selector, attribute } of selectors) {
+		$(selector).each((_, element) => {
+			addLink($(element).attr(attribute), element);
+		});
+	}
+
+	if (sources.includes('onclick')) {
+		$('[onclick]').each((_, element) => {
+			const onclick = $(element).attr('onclick') ?? '';
+			for (const match of Array.from(onclick.matchAll(ONCLICK_URL_REGEX))) {
+				addLink(match[2], element);
+			}
+		});
+	}
+
+	return Array.from(links.values());
+}
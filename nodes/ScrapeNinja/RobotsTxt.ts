@@ -0,0 +1,164 @@
+interface IRobotsRule {
+	allow: boolean;
+	pattern: string;
+}
+
+interface IRobotsGroup {
+	userAgents: string[];
+	rules: IRobotsRule[];
+	crawlDelay?: number;
+}
+
+export interface IRobotsTxt {
+	rules: IRobotsRule[];
+	// Crawl-delay in seconds for the matched user-agent group
+	crawlDelay?: number;
+	// Sitemap URLs declared in robots.txt, regardless of user-agent groups
+	sitemaps: string[];
+}
+
+export interface IRobotsVerdict {
+	allowed: boolean;
+	// The robots.txt line which decided the verdict, e.g. "Disallow: /admin"
+	rule?: string;
+}
+
+function parseGroups(content: string): { groups: IRobotsGroup[]; sitemaps: string[] } {
+	const groups: IRobotsGroup[] = [];
+	const sitemaps: string[] = [];
+	let current: IRobotsGroup | null = null;
+	// Consecutive User-agent lines share the same group
+	let collectingAgents = false;
+
+	for (const rawLine of content.split(/\r?\n/)) {
+		const line = rawLine.replace(/#.*$/, '').trim();
+		const separatorIndex = line.indexOf(':');
+		if (separatorIndex === -1) continue;
+
+		const key = line.substring(0, separatorIndex).trim().toLowerCase();
+		const value = line.substring(separatorIndex + 1).trim();
+
+		if (key === 'sitemap') {
+			if (value) sitemaps.push(value);
+			continue;
+		}
+
+		if (key === 'user-agent') {
+			if (!current || !collectingAgents) {
+				current = { userAgents: [], rules: [] };
+				groups.push(current);
+			}
+			current.userAgents.push(value.toLowerCase());
+			collectingAgents = true;
+			continue;
+		}
+
+		collectingAgents = false;
+		if (!current) continue;
+
+		if (key === 'allow' || key === 'disallow') {
+			// An empty Disallow means "allow everything" and carries no rule
+			if (value) {
+				current.rules.push({ allow: key === 'allow', pattern: value });
+			}
+		} else if (key === 'crawl-delay') {
+			const delay = parseFloat(value);
+			if (!isNaN(delay) && delay >= 0) {
+				current.crawlDelay = delay;
+			}
+		}
+	}
+
+	return { groups, sitemaps };
+}
+
+/**
+ * Parses robots.txt content and keeps the rules of the group which applies to the given user-agent token.
+ * The most specific matching user-agent wins, "*" is used as a fallback.
+ */
+export function parseRobotsTxt(content: string, userAgent: string): IRobotsTxt {
+	const { groups, sitemaps } = parseGroups(content);
+	const token = (userAgent || '*').trim().toLowerCase();
+
+	let bestLength = -1;
+	let matched: IRobotsGroup[] = [];
+
+	for (const group of groups) {
+		for (const agent of group.userAgents) {
+			const length = agent === '*' ? 0 : token.includes(agent) ? agent.length : -1;
+			if (length < 0) continue;
+
+			if (length > bestLength) {
+				bestLength = length;
+				matched = [group];
+			} else if (length === bestLength && !matched.includes(group)) {
+				matched.push(group);
+			}
+		}
+	}
+
+	const crawlDelays = matched
+		.map((group) => group.crawlDelay)
+		.filter((delay): delay is number => delay !== undefined);
+
+	return {
+		rules: matched.flatMap((group) => group.rules),
+		crawlDelay: crawlDelays.length > 0 ? Math.max(...crawlDelays) : undefined,
+		sitemaps,
+	};
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function ruleMatches(pattern: string, path: string): boolean {
+	const anchored = pattern.endsWith('$');
+	const source = (anchored ? pattern.slice(0, -1) : pattern)
+		.split('*')
+		.map(escapeRegExp)
+		.join('.*');
+
+	return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Checks a URL against parsed robots.txt rules. The longest matching rule wins,
+ * Allow wins over Disallow of the same length, and URLs without a matching rule are allowed.
+ */
+export function isAllowedByRobots(robots: IRobotsTxt, url: string): IRobotsVerdict {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return { allowed: true };
+	}
+
+	if (parsed.pathname === '/robots.txt') {
+		return { allowed: true };
+	}
+
+	const path = parsed.pathname + parsed.search;
+	let best: IRobotsRule | null = null;
+
+	for (const rule of robots.rules) {
+		if (!ruleMatches(rule.pattern, path)) continue;
+
+		if (
+			!best ||
+			rule.pattern.length > best.pattern.length ||
+			(rule.pattern.length === best.pattern.length && rule.allow && !best.allow)
+		) {
+			best = rule;
+		}
+	}
+
+	if (!best) {
+		return { allowed: true };
+	}
+
+	return {
+		allowed: best.allow,
+		rule: `${best.allow ? 'Allow' : 'Disallow'}: ${best.pattern}`,
+	};
+}
@@ -6,7 +6,7 @@ import type {
 } from 'n8n-workflow';
 import { NodeOperationError, NodeConnectionType } from 'n8n-workflow';
 import { extractContentProperties, executeExtractContent } from './ExtractContent';
-import { scrapeProperties, scrapeJsProperties, executeScrape } from './ScrapeOperations';
+import { scrapeProperties, scrapeJsProperties, executeScrape, executeScrapeBatch, getErrorItem } from './ScrapeOperations';
 import { cleanupHtmlProperties, executeCleanupHtml } from './CleanupHtml';
 import { extractCustomProperties, executeExtractCustom } from './ExtractCustom';
 import { crawlerProperties, executeCrawler } from './CrawlerOperations';
@@ -17,7 +17,9 @@ export class ScrapeNinja implements INodeType {
 		name: 'scrapeNinja',
 		icon: 'file:ScrapeNinja.svg',
 		group: ['transform'],
-		version: 1,
+		// Version 2 normalizes the scrape output and outputs screenshots as binary data, version 1 returns the raw API response
+		version: [1, 2],
+		defaultVersion: 2,
 		description: 'Consume ScrapeNinja Web Scraping API - See full documentation at https://scrapeninja.net/docs/',
 		subtitle: '={{ $parameter["operation"] }}',
 		defaults: {
@@ -36,7 +38,7 @@ export class ScrapeNinja implements INodeType {
 				required: true,
 				displayOptions: {
 					show: {
-						operation: ['scrape', 'scrape-js', 'crawler-start'],
+						operation: ['scrape', 'scrape-js', 'crawler-start', 'crawler-resume'],
 					},
 				},
 			},
@@ -45,7 +47,8 @@ export class ScrapeNinja implements INodeType {
 				required: true,
 				displayOptions: {
 					show: {
-						operation: ['crawler-start'],
+						operation: ['crawler-start', 'crawler-resume', 'crawler-status', 'crawler-cancel', 'crawler-pause', 'crawler-links'],
+						storageBackend: ['postgres'],
 					},
 				},
 			},
@@ -77,6 +80,36 @@ export class ScrapeNinja implements INodeType {
 						description: 'Start a new crawling process with traversal of the entire website',
 						action: 'Crawl multiple pages',
 					},
+					{
+						name: 'Resume Crawl',
+						value: 'crawler-resume',
+						description: 'Continue a paused, canceled, failed or interrupted crawler run from where it stopped. The failure budget starts again, failed pages are not retried.',
+						action: 'Resume a crawler run',
+					},
+					{
+						name: 'Get Crawl Status and Results',
+						value: 'crawler-status',
+						description: 'Read progress, stats, pages and logs of an existing crawler run without crawling',
+						action: 'Get crawler run status and results',
+					},
+					{
+						name: 'Export Crawl Link Graph',
+						value: 'crawler-links',
+						description: 'Export links between crawled pages, orphan pages or broken internal links of a crawler run',
+						action: 'Export the link graph of a crawler run',
+					},
+					{
+						name: 'Pause Crawl',
+						value: 'crawler-pause',
+						description: 'Pause a running crawler run, keeping its pending URLs for a later resume',
+						action: 'Pause a crawler run',
+					},
+					{
+						name: 'Cancel Crawl',
+						value: 'crawler-cancel',
+						description: 'Cancel a running or paused crawler run and all its pending URLs',
+						action: 'Cancel a crawler run',
+					},
 					{
 						name: 'Clean up HTML',
 						value: 'cleanup-html',
@@ -132,6 +165,14 @@ export class ScrapeNinja implements INodeType {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
 
+		// The operation can't be an expression, so the first item decides about batch mode for all items
+		if (items.length > 0) {
+			const operation = this.getNodeParameter('operation', 0) as string;
+			if (['scrape', 'scrape-js'].includes(operation) && this.getNodeParameter('batchMode', 0, false)) {
+				return [await executeScrapeBatch.call(this, items, operation)];
+			}
+		}
+
 		for (let i = 0; i < items.length; i++) {
 			try {
 				const operation = this.getNodeParameter('operation', i) as string;
@@ -156,7 +197,7 @@ export class ScrapeNinja implements INodeType {
 
 				if (operation.startsWith('crawler-')) {
 					const result = await executeCrawler.call(this, items, i);
-					returnData.push(result);
+					returnData.push(...result);
 					continue;
 				}
 
@@ -164,12 +205,7 @@ export class ScrapeNinja implements INodeType {
 				returnData.push(result);
 			} catch (error) {
 				if (this.continueOnFail()) {
-					returnData.push({
-						json: {
-							error: error.message,
-							details: error.response?.data || 'No additional details available',
-						},
-					});
+					returnData.push(getErrorItem(error, i));
 					continue;
 				}
 				throw new NodeOperationError(this.getNode(), error, {
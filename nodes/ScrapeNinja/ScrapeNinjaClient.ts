@@ -0,0 +1,398 @@
+import type { IDataObject, IExecuteFunctions, IHttpRequestOptions } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { IScrapeSettings } from './types';
+
+export type ScrapeNinjaMarketplace = 'rapidapi' | 'apiroad' | 'direct';
+
+export interface IScrapeNinjaCredentials {
+	marketplace?: ScrapeNinjaMarketplace;
+	apiKey: string;
+	// Direct marketplace only
+	baseUrl?: string;
+	authHeaderName?: string;
+}
+
+export interface IScrapeResult {
+	info: {
+		statusCode: number;
+		finalUrl: string;
+		headers: string[];
+		statusMessage?: string;
+		// Base64 encoded PNG, only returned by /scrape-js when a screenshot was requested
+		screenshot?: string;
+	};
+	body: string;
+	// Returned when an extractor function was sent
+	extractor?: {
+		result?: any;
+	};
+}
+
+/**
+ * Output of the scrape operations. The raw API response is normalized so that workflows
+ * don't depend on its layout, e.g. headers are an object instead of "Name: value" lines.
+ */
+export interface IScrapeOutput {
+	statusCode: number;
+	finalUrl: string;
+	// Lowercase header names, headers sent several times (e.g. set-cookie) have an array of values
+	headers: Record<string, string | string[]>;
+	body: string;
+	// Return value of the extractor function, null when no extractor was sent
+	extractor: any;
+	// Base64 encoded PNG, null when no screenshot was taken or it is output as binary data
+	screenshot: string | null;
+}
+
+/**
+ * Structured error of a failed scrape, passed to the error output when the node continues on fail.
+ */
+export interface IScrapeErrorDetails {
+	// target_status: the target website responded with an error status code,
+	// scrapeninja_error: the ScrapeNinja API returned an error, e.g. when all retries failed
+	type: 'target_status' | 'scrapeninja_error';
+	message: string;
+	url: string;
+	// Status code of the target website in the last attempt, null when it is unknown
+	statusCode: number | null;
+	finalUrl: string | null;
+	// Proxy geo location, "_custom" for a custom proxy
+	geo: string;
+	// Status code of the ScrapeNinja API response
+	apiStatusCode: number | null;
+	// Error payload returned by ScrapeNinja
+	response?: any;
+}
+
+/**
+ * Parses a list of status codes and ranges like "403, 404, 500-599". An empty list matches every
+ * status code outside of 2xx. Throws when an entry is not a status code or range.
+ */
+export function parseStatusCodeMatcher(list: string): (statusCode: number) => boolean {
+	const entries = list.split(/[\s,]+/).filter(Boolean);
+	if (entries.length === 0) {
+		return (statusCode) => statusCode < 200 || statusCode >= 300;
+	}
+
+	const ranges = entries.map((entry) => {
+		const match = entry.match(/^(\d{3})(?:-(\d{3}))?$/);
+		if (!match) {
+			throw new Error(`"${entry}" is not a status code or range`);
+		}
+		return [Number(match[1]), Number(match[2] ?? match[1])];
+	});
+
+	return (statusCode) => ranges.some(([from, to]) => statusCode >= from && statusCode <= to);
+}
+
+export function getTargetStatusError(
+	result: IScrapeResult,
+	url: string,
+	settings: IScrapeSettings,
+): IScrapeErrorDetails {
+	const statusCode = result.info.statusCode;
+
+	return {
+		type: 'target_status',
+		message: `Target website responded with status code ${statusCode}`,
+		url,
+		statusCode,
+		finalUrl: result.info.finalUrl || url,
+		geo: settings.geo,
+		apiStatusCode: 200,
+	};
+}
+
+/**
+ * Returns the error of a ScrapeNinja error payload, either thrown by the HTTP request or returned
+ * instead of a scrape result. A returned response without "info" is an error as well, the target
+ * status code is unknown then. Returns null for thrown errors without a response and for scrape results.
+ */
+export function getScrapeNinjaError(
+	errorOrResponse: any,
+	url: string,
+	settings: IScrapeSettings,
+): IScrapeErrorDetails | null {
+	const isThrown = errorOrResponse instanceof Error;
+	if (isThrown && !(errorOrResponse as any).response) return null;
+
+	const payload = isThrown ? (errorOrResponse as any).response.data : errorOrResponse;
+	if (!isThrown && payload?.info) return null;
+
+	let data = payload;
+	if (typeof data === 'string') {
+		try {
+			data = JSON.parse(data);
+		} catch {
+			// Plain text error
+		}
+	}
+
+	const message = String(
+		data?.message || data?.error || (typeof data === 'string' && data) ||
+		(isThrown ? errorOrResponse.message : 'Response without page info') || 'ScrapeNinja request failed',
+	);
+
+	return {
+		type: 'scrapeninja_error',
+		message: `ScrapeNinja error: ${message}`,
+		url,
+		statusCode: data?.info?.statusCode ?? null,
+		finalUrl: data?.info?.finalUrl ?? null,
+		geo: settings.geo,
+		apiStatusCode: isThrown
+			? (errorOrResponse as any).response.status ?? (errorOrResponse as any).response.statusCode ?? null
+			: 200,
+		response: data,
+	};
+}
+
+export function parseResponseHeaders(headers: string[] = []): Record<string, string | string[]> {
+	const parsed: Record<string, string | string[]> = {};
+
+	for (const line of headers) {
+		const separatorIndex = line.indexOf(':');
+		if (separatorIndex <= 0) continue;
+
+		const name = line.substring(0, separatorIndex).trim().toLowerCase();
+		const value = line.substring(separatorIndex + 1).trim();
+		const existing = parsed[name];
+		parsed[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+	}
+
+	return parsed;
+}
+
+export function toScrapeOutput(result: IScrapeResult, requestedUrl: string): IScrapeOutput {
+	return {
+		statusCode: result.info?.statusCode,
+		finalUrl: result.info?.finalUrl || requestedUrl,
+		headers: parseResponseHeaders(result.info?.headers),
+		body: result.body ?? '',
+		extractor: result.extractor?.result ?? null,
+		screenshot: result.info?.screenshot || null,
+	};
+}
+
+const MARKETPLACE_BASE_URLS: Record<Exclude<ScrapeNinjaMarketplace, 'direct'>, string> = {
+	rapidapi: 'https://scrapeninja.p.rapidapi.com',
+	apiroad: 'https://scrapeninja.apiroad.net',
+};
+
+const MARKETPLACE_NAMES: Record<ScrapeNinjaMarketplace, string> = {
+	rapidapi: 'RapidAPI',
+	apiroad: 'APIRoad',
+	direct: 'ScrapeNinja API',
+};
+
+export function getMarketplaceName(credentials: IScrapeNinjaCredentials): string {
+	return MARKETPLACE_NAMES[credentials.marketplace || 'rapidapi'];
+}
+
+export function getBaseUrl(credentials: IScrapeNinjaCredentials): string {
+	const marketplace = credentials.marketplace || 'rapidapi';
+	return marketplace === 'direct'
+		? (credentials.baseUrl ?? '').trim().replace(/\/+$/, '')
+		: MARKETPLACE_BASE_URLS[marketplace];
+}
+
+/**
+ * Builds the /scrape or /scrape-js request body. Empty values are left out so that ScrapeNinja
+ * applies its own defaults, options of the other engine are ignored.
+ */
+export function buildScrapeRequestBody(url: string, settings: IScrapeSettings): IDataObject {
+	const body: IDataObject = { url };
+
+	if (settings.headers?.length > 0) {
+		body.headers = settings.headers;
+	}
+
+	// 0 disables retries, so it is sent as well
+	if (settings.retryNum !== undefined && settings.retryNum !== null) {
+		body.retryNum = settings.retryNum;
+	}
+
+	if (settings.textNotExpected?.length > 0) {
+		body.textNotExpected = settings.textNotExpected;
+	}
+
+	if (settings.statusNotExpected?.length > 0) {
+		body.statusNotExpected = settings.statusNotExpected;
+	}
+
+	// Add geo only if not using custom proxy
+	if (settings.geo !== '_custom') {
+		body.geo = settings.geo;
+	}
+
+	// Add proxy if using custom proxy and it's not empty
+	if (settings.geo === '_custom' && settings.proxy) {
+		body.proxy = settings.proxy;
+	}
+
+	if (settings.extractor?.trim()) {
+		body.extractor = settings.extractor;
+	}
+
+	if (settings.engine === 'scrape') {
+		if (settings.followRedirects !== undefined) {
+			body.followRedirects = settings.followRedirects ? 1 : 0;
+		}
+		if (settings.timeout) {
+			body.timeout = settings.timeout;
+		}
+		return body;
+	}
+
+	// Both endpoints take the timeout as "timeout", scrape-js just has a different default
+	if (settings.timeoutJs) {
+		body.timeout = settings.timeoutJs;
+	}
+	if (settings.waitForSelector) {
+		body.waitForSelector = settings.waitForSelector;
+	}
+	if (settings.dumpIframe) {
+		body.dumpIframe = settings.dumpIframe;
+	}
+	if (settings.waitForSelectorIframe) {
+		body.waitForSelectorIframe = settings.waitForSelectorIframe;
+	}
+	if (settings.extractorTargetIframe) {
+		body.extractorTargetIframe = settings.extractorTargetIframe;
+	}
+	if (settings.blockImages) {
+		body.blockImages = settings.blockImages;
+	}
+	if (settings.blockMedia) {
+		body.blockMedia = settings.blockMedia;
+	}
+	if (settings.screenshot) {
+		body.screenshot = settings.screenshot;
+	}
+	if (settings.catchAjaxHeadersUrlMask) {
+		body.catchAjaxHeadersUrlMask = settings.catchAjaxHeadersUrlMask;
+	}
+	if (settings.postWaitTime) {
+		body.postWaitTime = settings.postWaitTime;
+	}
+	if (settings.viewport) {
+		body.viewport = settings.viewport;
+	}
+
+	return body;
+}
+
+// Auth headers are added by the authenticate() method of the credential
+export function buildScrapeRequest(
+	credentials: IScrapeNinjaCredentials,
+	url: string,
+	settings: IScrapeSettings,
+): IHttpRequestOptions {
+	return {
+		method: 'POST',
+		url: `${getBaseUrl(credentials)}/${settings.engine}`,
+		headers: {
+			'Content-Type': 'application/json',
+		},
+		body: buildScrapeRequestBody(url, settings),
+		json: true,
+	};
+}
+
+export async function getScrapeNinjaCredentials(this: IExecuteFunctions): Promise<IScrapeNinjaCredentials> {
+	const credentials = await this.getCredentials('scrapeNinjaApi');
+	if (!credentials?.apiKey) {
+		throw new NodeOperationError(this.getNode(), 'No ScrapeNinja API Key found in credentials!');
+	}
+
+	const scrapeNinjaCredentials: IScrapeNinjaCredentials = {
+		marketplace: credentials.marketplace as ScrapeNinjaMarketplace,
+		apiKey: credentials.apiKey.toString(),
+		baseUrl: credentials.baseUrl as string | undefined,
+		authHeaderName: credentials.authHeaderName as string | undefined,
+	};
+
+	if (scrapeNinjaCredentials.marketplace === 'direct') {
+		const baseUrl = getBaseUrl(scrapeNinjaCredentials);
+		if (!/^https?:\/\/[^/]/.test(baseUrl)) {
+			throw new NodeOperationError(this.getNode(), `Invalid ScrapeNinja base URL "${baseUrl}" in credentials`);
+		}
+	}
+
+	return scrapeNinjaCredentials;
+}
+
+/**
+ * Sends a prepared request with the auth headers of the ScrapeNinja credential.
+ * HTTP errors of the API are thrown as is, with the API response in error.response.
+ */
+export async function sendScrapeRequest(this: IExecuteFunctions, request: IHttpRequestOptions): Promise<IScrapeResult> {
+	return await this.helpers.httpRequestWithAuthentication.call(this, 'scrapeNinjaApi', request) as IScrapeResult;
+}
+
+// Scrapes a single URL through the ScrapeNinja API
+export async function scrapeWithScrapeNinja(
+	this: IExecuteFunctions,
+	url: string,
+	settings: IScrapeSettings,
+): Promise<IScrapeResult> {
+	const credentials = await getScrapeNinjaCredentials.call(this);
+	return await sendScrapeRequest.call(this, buildScrapeRequest(credentials, url, settings));
+}
+
+/**
+ * Reads the scraping parameters shared by the scrape operations and the crawler into scrape settings.
+ * Parameters not shown for the current operation fall back to their defaults.
+ */
+export function getScrapeSettings(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	engine: IScrapeSettings['engine'],
+): IScrapeSettings {
+	const geo = this.getNodeParameter('geo', itemIndex, 'us') as string;
+	const settings: IScrapeSettings = {
+		engine,
+		headers: this.getNodeParameter('headers', itemIndex, []) as string[],
+		retryNum: this.getNodeParameter('retryNum', itemIndex, 1) as number,
+		geo,
+		proxy: geo === '_custom' ? this.getNodeParameter('proxy', itemIndex, '') as string : undefined,
+		textNotExpected: this.getNodeParameter('textNotExpected', itemIndex, []) as string[],
+		statusNotExpected: this.getNodeParameter('statusNotExpected', itemIndex, []) as number[],
+		extractor: (this.getNodeParameter('extractor', itemIndex, '') as string) || undefined,
+	};
+
+	if (engine === 'scrape') {
+		settings.followRedirects = this.getNodeParameter('followRedirects', itemIndex, true) as boolean;
+		settings.timeout = this.getNodeParameter('timeout', itemIndex, 10) as number;
+		return settings;
+	}
+
+	Object.assign(settings, {
+		timeoutJs: this.getNodeParameter('timeoutJs', itemIndex, 16) as number,
+		waitForSelector: this.getNodeParameter('waitForSelector', itemIndex, '') as string,
+		dumpIframe: this.getNodeParameter('dumpIframe', itemIndex, '') as string,
+		waitForSelectorIframe: this.getNodeParameter('waitForSelectorIframe', itemIndex, '') as string,
+		extractorTargetIframe: this.getNodeParameter('extractorTargetIframe', itemIndex, false) as boolean,
+		blockImages: this.getNodeParameter('blockImages', itemIndex, false) as boolean,
+		blockMedia: this.getNodeParameter('blockMedia', itemIndex, false) as boolean,
+		screenshot: this.getNodeParameter('screenshot', itemIndex, false) as boolean,
+		catchAjaxHeadersUrlMask: this.getNodeParameter('catchAjaxHeadersUrlMask', itemIndex, '') as string,
+		postWaitTime: this.getNodeParameter('postWaitTime', itemIndex, 0) as number,
+	});
+
+	const viewportString = this.getNodeParameter('viewport', itemIndex, '') as string;
+	if (viewportString.trim() !== '') {
+		let viewport: any;
+		try {
+			viewport = JSON.parse(viewportString);
+		} catch {
+			throw new NodeOperationError(this.getNode(), 'Invalid viewport JSON provided', { itemIndex });
+		}
+		if (typeof viewport !== 'object' || viewport === null || Array.isArray(viewport)) {
+			throw new NodeOperationError(this.getNode(), 'Viewport must be a valid JSON object', { itemIndex });
+		}
+		settings.viewport = viewport;
+	}
+
+	return settings;
+}
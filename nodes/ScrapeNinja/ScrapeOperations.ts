@@ -1,6 +1,21 @@
 import type { INodeProperties } from 'n8n-workflow';
-import type { IExecuteFunctions, INodeExecutionData, IHttpRequestMethods, IDataObject } from 'n8n-workflow';
+import type { IBinaryKeyData, IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
 import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+import {
+	buildScrapeRequest,
+	getMarketplaceName,
+	getScrapeNinjaCredentials,
+	getScrapeNinjaError,
+	getScrapeSettings,
+	getTargetStatusError,
+	IScrapeErrorDetails,
+	IScrapeResult,
+	parseStatusCodeMatcher,
+	sendScrapeRequest,
+	toScrapeOutput,
+} from './ScrapeNinjaClient';
+import type { IScrapeSettings } from './types';
+import { CrawlerQueue } from './CrawlerQueue';
 
 export const scrapeProperties: INodeProperties[] = [
 	{
@@ -194,6 +209,147 @@ export const scrapeProperties: INodeProperties[] = [
 			},
 		},
 	},
+	{
+		displayName: 'Batch Mode',
+		name: 'batchMode',
+		type: 'boolean',
+		default: false,
+		noDataExpression: true,
+		description: 'Whether to scrape the input items concurrently instead of one after another. Results keep the order of the input items.',
+		displayOptions: {
+			show: {
+				operation: ['scrape', 'scrape-js'],
+			},
+		},
+	},
+	{
+		displayName: 'Batch Concurrency',
+		name: 'batchConcurrency',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 5,
+		noDataExpression: true,
+		description: 'Maximum number of pages scraped at the same time',
+		displayOptions: {
+			show: {
+				operation: ['scrape', 'scrape-js'],
+				batchMode: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Rate Limit Per',
+		name: 'batchRateLimitScope',
+		type: 'options',
+		options: [
+			{
+				name: 'Whole Batch',
+				value: 'batch',
+				description: 'The limits below apply to all requests of the batch together',
+			},
+			{
+				name: 'Target Host',
+				value: 'host',
+				description: 'The limits below apply to the requests to each host separately',
+			},
+		],
+		default: 'batch',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				operation: ['scrape', 'scrape-js'],
+				batchMode: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Min Delay Between Requests (Ms)',
+		name: 'batchMinDelayMs',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 0,
+		noDataExpression: true,
+		description: 'Minimum time between the starts of two requests',
+		displayOptions: {
+			show: {
+				operation: ['scrape', 'scrape-js'],
+				batchMode: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Max Requests per Minute',
+		name: 'batchMaxRequestsPerMinute',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 0,
+		noDataExpression: true,
+		description: 'Maximum number of requests started within one minute. 0 means no limit.',
+		displayOptions: {
+			show: {
+				operation: ['scrape', 'scrape-js'],
+				batchMode: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Fail on Target Error Status',
+		name: 'failOnTargetError',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to fail the item when the target website responds with an error status code instead of returning the response. With "On Error: Continue (using error output)" failed items go to the error output with a structured error in "details".',
+		displayOptions: {
+			show: {
+				operation: ['scrape', 'scrape-js'],
+			},
+		},
+	},
+	{
+		displayName: 'Error Status Codes',
+		name: 'errorStatusCodes',
+		type: 'string',
+		default: '',
+		placeholder: '403, 404, 500-599',
+		description: 'Status codes and ranges treated as errors. Leave empty to treat every status code outside of 200-299 as an error.',
+		displayOptions: {
+			show: {
+				operation: ['scrape', 'scrape-js'],
+				failOnTargetError: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Output HTML as Binary',
+		name: 'htmlAsBinary',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to also output the page HTML as a binary file, e.g. to store it with S3 or Google Drive nodes. The "body" field of the JSON output is kept.',
+		displayOptions: {
+			show: {
+				operation: ['scrape', 'scrape-js'],
+			},
+		},
+	},
+	{
+		displayName: 'HTML Binary Property',
+		name: 'htmlBinaryProperty',
+		type: 'string',
+		default: 'html',
+		required: true,
+		description: 'Name of the binary property to write the HTML to',
+		displayOptions: {
+			show: {
+				operation: ['scrape', 'scrape-js'],
+				htmlAsBinary: [true],
+			},
+		},
+	},
 ];
 
 export const scrapeJsProperties: INodeProperties[] = [
@@ -281,6 +437,47 @@ export const scrapeJsProperties: INodeProperties[] = [
 			},
 		},
 	},
+	{
+		displayName: 'Screenshot Output',
+		name: 'screenshotOutput',
+		type: 'options',
+		options: [
+			{
+				name: 'Binary Data',
+				value: 'binary',
+				description: 'PNG file in the binary property below, ready for nodes like S3 or Google Drive',
+			},
+			{
+				name: 'Base64 in JSON',
+				value: 'json',
+				description: 'Base64 encoded PNG in the "screenshot" field of the JSON output',
+			},
+		],
+		default: 'binary',
+		displayOptions: {
+			show: {
+				operation: ['scrape-js'],
+				screenshot: [true],
+				'@version': [2],
+			},
+		},
+	},
+	{
+		displayName: 'Screenshot Binary Property',
+		name: 'screenshotBinaryProperty',
+		type: 'string',
+		default: 'screenshot',
+		required: true,
+		description: 'Name of the binary property to write the screenshot to',
+		displayOptions: {
+			show: {
+				operation: ['scrape-js'],
+				screenshot: [true],
+				screenshotOutput: ['binary'],
+				'@version': [2],
+			},
+		},
+	},
 	{
 		displayName: 'Catch Ajax Headers URL Mask',
 		name: 'catchAjaxHeadersUrlMask',
@@ -335,146 +532,184 @@ export const scrapeJsProperties: INodeProperties[] = [
 	},
 ];
 
+function scrapeError(this: IExecuteFunctions, details: IScrapeErrorDetails, itemIndex: number): NodeOperationError {
+	const error = new NodeOperationError(this.getNode(), details.message, {
+		itemIndex,
+		description: `URL: ${details.url}, geo: ${details.geo}`,
+	});
+	error.context.scrapeError = details;
+	return error;
+}
+
 export async function executeScrape(
 	this: IExecuteFunctions,
 	items: INodeExecutionData[],
 	i: number,
 	operation: string,
 ): Promise<INodeExecutionData> {
-	const credentials = await this.getCredentials('scrapeNinjaApi') as IDataObject;
-	if (!credentials?.apiKey) {
-		throw new NodeOperationError(this.getNode(), 'No ScrapeNinja API Key found in credentials!');
-	}
+	const credentials = await getScrapeNinjaCredentials.call(this);
 
 	const url = this.getNodeParameter('url', i) as string;
-	const customHeaders = this.getNodeParameter('headers', i, []) as string[];
-	const retryNum = this.getNodeParameter('retryNum', i, 1) as number;
-	const geo = this.getNodeParameter('geo', i, 'us') as string;
-	const proxy = geo === '_custom' ? this.getNodeParameter('proxy', i, '') as string : '';
-	const textNotExpected = this.getNodeParameter('textNotExpected', i, []) as string[];
-	const statusNotExpected = this.getNodeParameter('statusNotExpected', i, []) as number[];
-	const extractor = this.getNodeParameter('extractor', i, '') as string;
-
-	const timeout = operation === 'scrape' 
-		? this.getNodeParameter('timeout', i, 10) as number
-		: this.getNodeParameter('timeoutJs', i, 16) as number;
+	const settings = getScrapeSettings.call(this, i, operation as IScrapeSettings['engine']);
 
-	// Build request body
-	const body: Record<string, any> = {
-		url,
-		headers: customHeaders,
-		retryNum,
-		textNotExpected,
-		extractor,
-		timeout,
-	};
+	let isTargetError: ((statusCode: number) => boolean) | null = null;
+	if (this.getNodeParameter('failOnTargetError', i, false) as boolean) {
+		try {
+			isTargetError = parseStatusCodeMatcher(this.getNodeParameter('errorStatusCodes', i, '') as string);
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), `Invalid error status codes: ${error.message}`, { itemIndex: i });
+		}
+	}
 
-	// Add statusNotExpected only if not empty
-	if (statusNotExpected.length > 0) {
-		body.statusNotExpected = statusNotExpected;
+	let response: IScrapeResult;
+	try {
+		response = await sendScrapeRequest.call(this, buildScrapeRequest(credentials, url, settings));
+	} catch (error) {
+		if (error.response) {
+			const details = getScrapeNinjaError(error, url, settings);
+			const apiError = error.response.status === 403
+				? new NodeApiError(this.getNode(), error, {
+					message: `${getMarketplaceName(credentials)} returned 403 Forbidden - This usually means your API key is invalid or has expired`,
+					description: JSON.stringify(error.response.data),
+					itemIndex: i,
+				})
+				: new NodeApiError(this.getNode(), error, { message: details?.message, itemIndex: i });
+			apiError.context.scrapeError = details;
+			throw apiError;
+		}
+		throw error;
 	}
 
-	// Add geo only if not using custom proxy
-	if (geo !== '_custom') {
-		body.geo = geo;
+	const isV1 = this.getNode().typeVersion < 2;
+
+	// ScrapeNinja errors returned with a 200 response, including responses without page info. Version 1
+	// returns such responses unchanged.
+	if (!isV1) {
+		const payloadError = getScrapeNinjaError(response, url, settings);
+		if (payloadError) {
+			throw scrapeError.call(this, payloadError, i);
+		}
 	}
 
-	// Add proxy if using custom proxy and it's not empty
-	if (geo === '_custom' && proxy) {
-		body.proxy = proxy;
+	if (response.info && isTargetError?.(response.info.statusCode)) {
+		throw scrapeError.call(this, getTargetStatusError(response, url, settings), i);
 	}
 
-	// Additional fields for /scrape
-	if (operation === 'scrape') {
-		const followRedirects = this.getNodeParameter('followRedirects', i, true) as boolean;
-		body.followRedirects = followRedirects ? 1 : 0;
+	// Version 1 workflows read the raw API response, e.g. $json.info.statusCode or $json.info.screenshot
+	if (isV1) {
+		return await getScrapeItemV1.call(this, response, i);
 	}
 
-	// Additional fields for /scrape-js
-	if (operation === 'scrape-js') {
-		body.waitForSelector = this.getNodeParameter('waitForSelector', i, '') as string;
-		body.dumpIframe = this.getNodeParameter('dumpIframe', i, '') as string;
-		body.waitForSelectorIframe = this.getNodeParameter('waitForSelectorIframe', i, '') as string;
-		body.extractorTargetIframe = this.getNodeParameter('extractorTargetIframe', i, false) as boolean;
-		body.blockImages = this.getNodeParameter('blockImages', i, false) as boolean;
-		body.blockMedia = this.getNodeParameter('blockMedia', i, false) as boolean;
-		body.screenshot = this.getNodeParameter('screenshot', i, false) as boolean;
-		body.catchAjaxHeadersUrlMask = this.getNodeParameter('catchAjaxHeadersUrlMask', i, '') as string;
-		
-		// Add postWaitTime only if greater than 0
-		const postWaitTime = this.getNodeParameter('postWaitTime', i, 0) as number;
-		if (postWaitTime > 0) {
-			body.postWaitTime = postWaitTime;
-		}
+	const output = toScrapeOutput(response, url);
+	const binary: IBinaryKeyData = {};
 
-		// Add viewport if it's set and valid JSON
-		const viewportString = this.getNodeParameter('viewport', i, '') as string;
-		if (viewportString.trim() !== '') {
-			try {
-				const viewport = JSON.parse(viewportString);
-				if (typeof viewport !== 'object' || viewport === null) {
-					throw new NodeOperationError(this.getNode(), 'Viewport must be a valid JSON object', {
-						itemIndex: i,
-					});
-				}
-				body.viewport = viewport;
-			} catch (e) {
-				throw new NodeOperationError(this.getNode(), 'Invalid viewport JSON provided', {
-					itemIndex: i,
-				});
-			}
-		}
+	if (output.screenshot && this.getNodeParameter('screenshotOutput', i, 'binary') === 'binary') {
+		const property = this.getNodeParameter('screenshotBinaryProperty', i, 'screenshot') as string;
+		binary[property] = await this.helpers.prepareBinaryData(
+			Buffer.from(output.screenshot, 'base64'),
+			'screenshot.png',
+			'image/png',
+		);
+		output.screenshot = null;
+	}
+
+	if (this.getNodeParameter('htmlAsBinary', i, false) as boolean) {
+		const property = this.getNodeParameter('htmlBinaryProperty', i, 'html') as string;
+		binary[property] = await this.helpers.prepareBinaryData(
+			Buffer.from(output.body, 'utf8'),
+			'page.html',
+			'text/html',
+		);
 	}
 
-	// Decide endpoint based on marketplace
-	const marketplace = (credentials as any).marketplace || 'rapidapi';
-	const endpoint = operation === 'scrape'
-		? marketplace === 'rapidapi' 
-			? 'https://scrapeninja.p.rapidapi.com/scrape'
-			: 'https://scrapeninja.apiroad.net/scrape'
-		: marketplace === 'rapidapi'
-			? 'https://scrapeninja.p.rapidapi.com/scrape-js'
-			: 'https://scrapeninja.apiroad.net/scrape-js';
+	return {
+		json: { ...output },
+		...(Object.keys(binary).length > 0 ? { binary } : {}),
+		pairedItem: { item: i },
+	};
+}
 
-	// Prepare headers based on marketplace
-	const headers: Record<string, string> = {
-		'Content-Type': 'application/json',
+async function getScrapeItemV1(
+	this: IExecuteFunctions,
+	response: IScrapeResult,
+	i: number,
+): Promise<INodeExecutionData> {
+	const item: INodeExecutionData = {
+		json: { ...response },
+		pairedItem: { item: i },
 	};
 
-	if (marketplace === 'rapidapi') {
-		headers['X-RapidAPI-Key'] = credentials.apiKey.toString();
-		headers['X-RapidAPI-Host'] = 'scrapeninja.p.rapidapi.com';
-	} else {
-		headers['X-Apiroad-Key'] = credentials.apiKey.toString();
+	if (this.getNodeParameter('htmlAsBinary', i, false) as boolean) {
+		const property = this.getNodeParameter('htmlBinaryProperty', i, 'html') as string;
+		item.binary = {
+			[property]: await this.helpers.prepareBinaryData(
+				Buffer.from(response.body ?? '', 'utf8'),
+				'page.html',
+				'text/html',
+			),
+		};
 	}
 
-	// Prepare request
-	const requestOptions = {
-		method: 'POST' as IHttpRequestMethods,
-		url: endpoint,
-		headers,
-		body,
-		json: true,
-		resolveWithFullResponse: true,
-		simple: false,
+	return item;
+}
+
+// Items with "error" go to the error output when the node is set to "Continue (using error output)"
+export function getErrorItem(error: any, itemIndex: number): INodeExecutionData {
+	return {
+		json: {
+			error: error.message,
+			details: error.context?.scrapeError ?? (error.response?.data || 'No additional details available'),
+		},
+		pairedItem: { item: itemIndex },
+	};
+}
+
+/**
+ * Scrapes all input items concurrently through a CrawlerQueue. Results are returned in the order
+ * of the input items, each paired with its input item.
+ */
+export async function executeScrapeBatch(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+	operation: string,
+): Promise<INodeExecutionData[]> {
+	const rateLimitScope = this.getNodeParameter('batchRateLimitScope', 0, 'batch') as string;
+	const queue = new CrawlerQueue(this.getNodeParameter('batchConcurrency', 0, 5) as number, {
+		minDelayMs: this.getNodeParameter('batchMinDelayMs', 0, 0) as number,
+		maxRequestsPerMinute: this.getNodeParameter('batchMaxRequestsPerMinute', 0, 0) as number,
+	});
+
+	const results: INodeExecutionData[] = new Array(items.length);
+	// Without continue on fail the first error fails the node, items not started yet are skipped
+	let failed = false;
+
+	// The rate limit key is the target host, or the same key for every item to limit the batch as a whole
+	const getRateLimitKey = (itemIndex: number): string => {
+		if (rateLimitScope !== 'host') return 'batch';
+		try {
+			return new URL(this.getNodeParameter('url', itemIndex) as string).host;
+		} catch {
+			return '';
+		}
 	};
 
 	try {
-		const response = await this.helpers.httpRequest(requestOptions);
-		return {
-			json: response,
-		};
-	} catch (error) {
-		if (error.response) {
-			if (error.response.status === 403) {
-				const marketplaceName = marketplace === 'rapidapi' ? 'RapidAPI' : 'APIRoad';
-				throw new NodeApiError(this.getNode(), error, {
-					message: `${marketplaceName} returned 403 Forbidden - This usually means your API key is invalid or has expired`,
-					description: JSON.stringify(error.response.data),
-				});
+		await Promise.all(items.map((_, itemIndex) => queue.add(async () => {
+			if (failed) return;
+
+			try {
+				results[itemIndex] = await executeScrape.call(this, items, itemIndex, operation);
+			} catch (error) {
+				if (!this.continueOnFail()) {
+					failed = true;
+					throw new NodeOperationError(this.getNode(), error, { itemIndex });
+				}
+				results[itemIndex] = getErrorItem(error, itemIndex);
 			}
-			throw new NodeApiError(this.getNode(), error);
-		}
-		throw error;
+		}, getRateLimitKey(itemIndex))));
+	} finally {
+		await queue.stop();
 	}
-} 
\ No newline at end of file
+
+	return results;
+}
@@ -0,0 +1,257 @@
+import type { IDataObject, IExecuteFunctions, IHttpRequestOptions } from 'n8n-workflow';
+import * as cheerio from 'cheerio';
+import type { Readable } from 'stream';
+import { gunzipSync } from 'zlib';
+import {
+	fetchRobotsTxt,
+	fetchWithScrapeNinja,
+	logToCrawler,
+} from './CrawlerExecute';
+import { normalizeUrl } from './UrlNormalization';
+import { createUrlFilter, UrlFilterOptions } from './UrlFilter';
+import { IScrapeSettings } from './types';
+import type { ICrawlerStorage } from './CrawlerStorage';
+
+// Limits protecting the run from huge or recursive sitemap indexes
+const MAX_SITEMAP_FILES = 50;
+const MAX_SITEMAP_URLS = 50000;
+// The sitemap protocol limits a sitemap to 50 MB uncompressed, gzipped files are capped before and after unpacking
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+export interface ISitemapEntry {
+	url: string;
+	lastmod: string | null;
+}
+
+export interface ISitemapSeedOptions {
+	sitemapUrls: string[];
+	useRobotsTxtSitemaps: boolean;
+	robotsUserAgent: string;
+	storeLastmod: boolean;
+	includePatterns: string[];
+	excludePatterns: string[];
+	crawlExternal: boolean;
+	// URL normalizer of the run, so sitemap URLs dedupe against crawled links
+	normalizeUrl?: (url: string) => string;
+	filterOptions?: UrlFilterOptions;
+}
+
+function parseLastmod(value: string): string | null {
+	if (!value) return null;
+	const date = new Date(value);
+	return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Parses a sitemap or a sitemap index. Index files return nested sitemap URLs, regular sitemaps return page entries.
+ */
+export function parseSitemap(xml: string): { entries: ISitemapEntry[]; sitemaps: string[] } {
+	const $ = cheerio.load(xml, { xmlMode: true });
+
+	const sitemaps = $('sitemapindex > sitemap > loc')
+		.map((_, element) => $(element).text().trim())
+		.get()
+		.filter(Boolean);
+
+	const entries: ISitemapEntry[] = [];
+	$('urlset > url').each((_, element) => {
+		const loc = $(element).children('loc').first().text().trim();
+		if (!loc) return;
+		entries.push({
+			url: loc,
+			lastmod: parseLastmod($(element).children('lastmod').first().text().trim()),
+		});
+	});
+
+	return { entries, sitemaps };
+}
+
+// Custom proxy of the scrape settings in the format of n8n HTTP requests
+function getRequestProxy(settings: IScrapeSettings): IHttpRequestOptions['proxy'] {
+	if (settings.geo !== '_custom' || !settings.proxy) return undefined;
+
+	const proxyUrl = new URL(settings.proxy);
+	return {
+		protocol: proxyUrl.protocol.replace(/:$/, ''),
+		host: proxyUrl.hostname,
+		port: Number(proxyUrl.port) || (proxyUrl.protocol === 'https:' ? 443 : 80),
+		...(proxyUrl.username ? {
+			auth: {
+				username: decodeURIComponent(proxyUrl.username),
+				password: decodeURIComponent(proxyUrl.password),
+			},
+		} : {}),
+	};
+}
+
+// Custom headers of the scrape settings, "Name: value" lines
+function getRequestHeaders(settings: IScrapeSettings): IDataObject {
+	const headers: IDataObject = {};
+	for (const line of settings.headers ?? []) {
+		const separatorIndex = line.indexOf(':');
+		if (separatorIndex <= 0) continue;
+		headers[line.substring(0, separatorIndex).trim()] = line.substring(separatorIndex + 1).trim();
+	}
+	return headers;
+}
+
+async function readStream(stream: Readable, maxBytes: number): Promise<Buffer> {
+	const chunks: Buffer[] = [];
+	let size = 0;
+
+	for await (const chunk of stream) {
+		size += chunk.length;
+		if (size > maxBytes) {
+			stream.destroy();
+			throw new Error(`Sitemap is larger than ${maxBytes} bytes`);
+		}
+		chunks.push(Buffer.from(chunk));
+	}
+
+	return Buffer.concat(chunks);
+}
+
+async function fetchSitemap(
+	this: IExecuteFunctions,
+	storage: ICrawlerStorage,
+	runId: number,
+	url: string,
+	settings: IScrapeSettings,
+): Promise<string> {
+	// ScrapeNinja returns the body as text, so gzipped sitemap files are downloaded directly. A custom
+	// proxy and the custom headers still apply, ScrapeNinja geo locations can't be used from the n8n host.
+	if (new URL(url).pathname.endsWith('.gz')) {
+		if (settings.geo !== '_custom') {
+			await logToCrawler.call(this, storage, runId, 'warn', `Downloading gzipped sitemap "${url}" from the n8n host, geo location "${settings.geo}" only applies to requests through ScrapeNinja`, {
+				url,
+				geo: settings.geo,
+			});
+		}
+
+		const stream = await this.helpers.httpRequest({
+			method: 'GET',
+			url,
+			encoding: 'stream',
+			headers: getRequestHeaders(settings),
+			proxy: getRequestProxy(settings),
+			timeout: (settings.timeout || 10) * 1000,
+		}) as Readable;
+
+		const data = await readStream(stream, MAX_SITEMAP_BYTES);
+		try {
+			return gunzipSync(data, { maxOutputLength: MAX_SITEMAP_BYTES }).toString('utf8');
+		} catch (error) {
+			if (error instanceof RangeError) {
+				throw new Error(`Unpacked sitemap is larger than ${MAX_SITEMAP_BYTES} bytes`);
+			}
+			throw error;
+		}
+	}
+
+	const result = await fetchWithScrapeNinja.call(this, storage, runId, url, {
+		...settings,
+		engine: 'scrape',
+		textNotExpected: [],
+		statusNotExpected: [],
+		followRedirects: true,
+	});
+
+	if (result.info.statusCode < 200 || result.info.statusCode >= 300) {
+		throw new Error(`Sitemap responded with status ${result.info.statusCode}`);
+	}
+
+	return result.body || '';
+}
+
+/**
+ * Collects page URLs from sitemaps of the start URL hosts (sitemap.xml, robots.txt Sitemap: lines
+ * or explicitly configured sitemaps) and inserts them into the queue of a run at depth 0.
+ * Returns the number of queued URLs.
+ */
+export async function seedQueueFromSitemaps(
+	this: IExecuteFunctions,
+	storage: ICrawlerStorage,
+	runId: number,
+	startUrls: string[],
+	settings: IScrapeSettings,
+	options: ISitemapSeedOptions,
+): Promise<number> {
+	const startHosts = new Set(startUrls.map((url) => new URL(url).hostname));
+	const filterUrl = createUrlFilter(options.includePatterns, options.excludePatterns, options.filterOptions);
+	const origins = Array.from(new Set(startUrls.map((url) => new URL(url).origin)));
+
+	const pendingSitemaps = options.sitemapUrls.filter(Boolean);
+	if (pendingSitemaps.length === 0) {
+		pendingSitemaps.push(...origins.map((origin) => `${origin}/sitemap.xml`));
+	}
+
+	if (options.useRobotsTxtSitemaps) {
+		for (const origin of origins) {
+			const robots = await fetchRobotsTxt.call(this, storage, runId, origin, settings, options.robotsUserAgent || '*');
+			pendingSitemaps.push(...robots.sitemaps);
+		}
+	}
+
+	const visitedSitemaps = new Set<string>();
+	const entries = new Map<string, ISitemapEntry>();
+	let skippedUrls = 0;
+
+	while (pendingSitemaps.length > 0 && visitedSitemaps.size < MAX_SITEMAP_FILES && entries.size < MAX_SITEMAP_URLS) {
+		const sitemapUrl = pendingSitemaps.shift() as string;
+		if (visitedSitemaps.has(sitemapUrl)) continue;
+		visitedSitemaps.add(sitemapUrl);
+
+		try {
+			const { entries: sitemapEntries, sitemaps } = parseSitemap(
+				await fetchSitemap.call(this, storage, runId, sitemapUrl, settings),
+			);
+			pendingSitemaps.push(...sitemaps);
+
+			for (const entry of sitemapEntries) {
+				let url: string;
+				try {
+					url = (options.normalizeUrl ?? normalizeUrl)(new URL(entry.url).toString());
+				} catch {
+					skippedUrls++;
+					continue;
+				}
+
+				const isAllowedHost = options.crawlExternal || startHosts.has(new URL(url).hostname);
+				if (!isAllowedHost || filterUrl(url)) {
+					skippedUrls++;
+					continue;
+				}
+
+				if (entries.size >= MAX_SITEMAP_URLS) break;
+				entries.set(url, { url, lastmod: entry.lastmod });
+			}
+
+			await logToCrawler.call(this, storage, runId, 'info', `Loaded sitemap "${sitemapUrl}"`, {
+				url: sitemapUrl,
+				urls_found: sitemapEntries.length,
+				nested_sitemaps: sitemaps.length,
+			});
+		} catch (error) {
+			await logToCrawler.call(this, storage, runId, 'warn', `Failed to load sitemap "${sitemapUrl}"`, {
+				url: sitemapUrl,
+				error: error.message,
+			});
+		}
+	}
+
+	// URLs which are already queued (e.g. the start URL) keep their existing row
+	const queued = await storage.enqueue(runId, Array.from(entries.values()).map((entry) => ({
+		url: entry.url,
+		depth: 0,
+		lastmod: options.storeLastmod ? entry.lastmod : null,
+	})));
+
+	await logToCrawler.call(this, storage, runId, 'info', `Seeded ${queued} URLs from sitemaps`, {
+		sitemaps_loaded: visitedSitemaps.size,
+		urls_queued: queued,
+		urls_skipped: skippedUrls,
+		max_sitemap_urls: MAX_SITEMAP_URLS,
+	});
+
+	return queued;
+}
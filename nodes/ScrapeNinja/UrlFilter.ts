@@ -0,0 +1,209 @@
+import { minimatch } from 'minimatch';
+import type { ICrawlerOptions } from './types';
+
+export type UrlFilterOptions = Pick<
+	ICrawlerOptions,
+	| 'urlFilterMode'
+	| 'includeRegex'
+	| 'excludeRegex'
+	| 'maxPathDepth'
+	| 'allowedQueryParams'
+	| 'deniedQueryParams'
+	| 'allowedExtensions'
+>;
+
+export type UrlRejectionReason =
+	| 'include_pattern'
+	| 'exclude_pattern'
+	| 'include_regex'
+	| 'exclude_regex'
+	| 'path_depth'
+	| 'query_param'
+	| 'extension'
+	| 'content_type'
+	| 'external_host'
+	| 'robots_txt';
+
+export interface IUrlRejection {
+	reason: UrlRejectionReason;
+	// Human readable explanation, e.g. the exclude pattern which matched
+	detail: string;
+}
+
+interface IQueryParamRule {
+	rule: string;
+	name: string;
+	operator?: '=' | '!=' | '<' | '<=' | '>' | '>=';
+	value?: string;
+}
+
+// "page", "page=1", "page<=20", "utm_*!=x"
+const QUERY_PARAM_RULE_REGEX = /^([^<>=!]+?)\s*(<=|>=|!=|=|<|>)\s*(.*)$/;
+
+/**
+ * Parses a regular expression given either as plain source (e.g. ^https://example\.com/docs/)
+ * or wrapped in slashes with flags (e.g. /\/docs\//i). The stateful g and y flags are dropped.
+ */
+export function parseRegex(pattern: string): RegExp {
+	const slashMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+	return slashMatch ? new RegExp(slashMatch[1], slashMatch[2].replace(/[gy]/g, '')) : new RegExp(pattern);
+}
+
+function parseQueryParamRule(rule: string): IQueryParamRule {
+	const match = rule.match(QUERY_PARAM_RULE_REGEX);
+	if (!match) {
+		return { rule, name: rule };
+	}
+
+	return {
+		rule,
+		name: match[1].trim(),
+		operator: match[2] as IQueryParamRule['operator'],
+		value: match[3].trim(),
+	};
+}
+
+function matchesQueryParamRule(rule: IQueryParamRule, key: string, value: string): boolean {
+	if (!minimatch(key, rule.name, { nocase: true, dot: true })) return false;
+
+	switch (rule.operator) {
+		case undefined:
+			return true;
+		case '=':
+			return value === rule.value;
+		case '!=':
+			return value !== rule.value;
+	}
+
+	// Comparisons only match numeric values
+	const actual = Number(value);
+	const expected = Number(rule.value);
+	if (value === '' || isNaN(actual) || isNaN(expected)) return false;
+
+	switch (rule.operator) {
+		case '<':
+			return actual < expected;
+		case '<=':
+			return actual <= expected;
+		case '>':
+			return actual > expected;
+		default:
+			return actual >= expected;
+	}
+}
+
+function toList(values: string[] | undefined): string[] {
+	return (values ?? []).map((value) => value.trim()).filter(Boolean);
+}
+
+/**
+ * Creates the URL filter of a crawler run. It returns why a URL is rejected, or null when the URL
+ * may be crawled. Glob patterns are matched against the URL without protocol; the advanced mode adds
+ * regular expressions, path depth, query parameter and file extension rules.
+ * Throws when a regular expression is invalid.
+ */
+export function createUrlFilter(
+	includePatterns: string[],
+	excludePatterns: string[],
+	options: UrlFilterOptions = {},
+): (url: string) => IUrlRejection | null {
+	const advanced = options.urlFilterMode === 'advanced';
+	const includeRegex = advanced ? toList(options.includeRegex).map(parseRegex) : [];
+	const excludeRegex = advanced ? toList(options.excludeRegex).map(parseRegex) : [];
+	const maxPathDepth = advanced ? options.maxPathDepth ?? 0 : 0;
+	const allowedQueryParams = advanced ? toList(options.allowedQueryParams).map(parseQueryParamRule) : [];
+	const deniedQueryParams = advanced ? toList(options.deniedQueryParams).map(parseQueryParamRule) : [];
+	const allowedExtensions = advanced
+		? toList(options.allowedExtensions).map((extension) => extension.replace(/^\./, '').toLowerCase())
+		: [];
+
+	return (url: string): IUrlRejection | null => {
+		// Convert URL to a format that works better with minimatch
+		const urlForMatching = url.replace(/^https?:\/\//, '');
+
+		// Exclude patterns take precedence over include patterns
+		for (const pattern of excludePatterns) {
+			if (minimatch(urlForMatching, pattern.replace(/^https?:\/\//, ''))) {
+				return { reason: 'exclude_pattern', detail: `Matches exclude pattern "${pattern}"` };
+			}
+		}
+
+		// If no include patterns are specified, include all URLs by default
+		if (
+			includePatterns.length > 0 &&
+			!includePatterns.some((pattern) => minimatch(urlForMatching, pattern.replace(/^https?:\/\//, '')))
+		) {
+			return { reason: 'include_pattern', detail: 'Matches none of the include patterns' };
+		}
+
+		if (!advanced) return null;
+
+		const excludedBy = excludeRegex.find((regex) => regex.test(url));
+		if (excludedBy) {
+			return { reason: 'exclude_regex', detail: `Matches exclude regex ${excludedBy}` };
+		}
+
+		if (includeRegex.length > 0 && !includeRegex.some((regex) => regex.test(url))) {
+			return { reason: 'include_regex', detail: 'Matches none of the include regexes' };
+		}
+
+		let parsed: URL;
+		try {
+			parsed = new URL(url);
+		} catch {
+			return null;
+		}
+
+		if (maxPathDepth > 0) {
+			const pathDepth = parsed.pathname.split('/').filter(Boolean).length;
+			if (pathDepth > maxPathDepth) {
+				return { reason: 'path_depth', detail: `Path depth ${pathDepth} exceeds ${maxPathDepth}` };
+			}
+		}
+
+		for (const [key, value] of Array.from(parsed.searchParams.entries())) {
+			const denied = deniedQueryParams.find((rule) => matchesQueryParamRule(rule, key, value));
+			if (denied) {
+				return { reason: 'query_param', detail: `Query parameter "${key}=${value}" matches denied rule "${denied.rule}"` };
+			}
+
+			if (allowedQueryParams.length > 0 && !allowedQueryParams.some((rule) => matchesQueryParamRule(rule, key, value))) {
+				return { reason: 'query_param', detail: `Query parameter "${key}=${value}" matches none of the allowed rules` };
+			}
+		}
+
+		if (allowedExtensions.length > 0) {
+			// URLs without a file extension (e.g. /docs/intro) are always allowed
+			const lastSegment = parsed.pathname.substring(parsed.pathname.lastIndexOf('/') + 1);
+			const extensionIndex = lastSegment.lastIndexOf('.');
+			const extension = extensionIndex > 0 ? lastSegment.substring(extensionIndex + 1).toLowerCase() : '';
+
+			if (extension && !allowedExtensions.includes(extension)) {
+				return { reason: 'extension', detail: `File extension "${extension}" is not allowed` };
+			}
+		}
+
+		return null;
+	};
+}
+
+/**
+ * Checks the Content-Type response header ("Name: value" lines) against allowed content types.
+ * Entries like "text/*" match a whole type, responses without Content-Type are accepted.
+ */
+export function getContentTypeRejection(headers: string[], allowedContentTypes: string[] = []): IUrlRejection | null {
+	const allowed = toList(allowedContentTypes).map((contentType) => contentType.toLowerCase());
+	if (allowed.length === 0) return null;
+
+	const header = (headers ?? []).find((line) => /^content-type\s*:/i.test(line));
+	if (!header) return null;
+
+	const contentType = header.substring(header.indexOf(':') + 1).split(';')[0].trim().toLowerCase();
+	const isAllowed = allowed.some((entry) => entry.endsWith('/*')
+		? contentType.startsWith(entry.slice(0, -1))
+		: contentType === entry);
+
+	return isAllowed
+		? null
+		: { reason: 'content_type', detail: `Content type "${contentType}" is not allowed` };
+}
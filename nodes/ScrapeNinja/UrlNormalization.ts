@@ -0,0 +1,98 @@
+import { minimatch } from 'minimatch';
+import type { ICrawlerOptions } from './types';
+
+export type UrlNormalizationOptions = Pick<
+	ICrawlerOptions,
+	'removeQueryParams' | 'sortQueryParams' | 'trailingSlash' | 'lowercasePath'
+>;
+
+export const DEFAULT_REMOVED_QUERY_PARAMS = ['utm_*', 'fbclid', 'gclid'];
+
+/**
+ * Compiles a query parameter pattern. Patterns wrapped in slashes are regular expressions
+ * (e.g. /^sess/i), anything else is a case-insensitive glob matched against the whole key (e.g. utm_*).
+ */
+function compileQueryParamPattern(pattern: string): (key: string) => boolean {
+	const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+	if (regexMatch) {
+		const regex = new RegExp(regexMatch[1], regexMatch[2]);
+		return (key) => {
+			// Global and sticky regexes keep state between test() calls
+			regex.lastIndex = 0;
+			return regex.test(key);
+		};
+	}
+
+	return (key) => minimatch(key, pattern, { nocase: true, dot: true });
+}
+
+/**
+ * Creates the URL normalizer of a crawler run. URLs are normalized before they are queued,
+ * so that variants of the same page end up in a single queue row.
+ * Throws when a query parameter pattern is not a valid regular expression.
+ */
+export function createUrlNormalizer(options: UrlNormalizationOptions = {}): (url: string) => string {
+	const removedParamMatchers = (options.removeQueryParams ?? [])
+		.map((pattern) => pattern.trim())
+		.filter(Boolean)
+		.map(compileQueryParamPattern);
+	const trailingSlash = options.trailingSlash ?? 'keep';
+
+	return (url: string): string => {
+		try {
+			const parsed = new URL(url);
+			// Remove hash fragment
+			parsed.hash = '';
+			// Remove trailing slash if it's the only path component
+			if (parsed.pathname === '/') {
+				parsed.pathname = '';
+			}
+			// Remove default ports
+			if ((parsed.protocol === 'http:' && parsed.port === '80') ||
+				(parsed.protocol === 'https:' && parsed.port === '443')) {
+				parsed.port = '';
+			}
+			// Always use lowercase hostname
+			parsed.hostname = parsed.hostname.toLowerCase();
+
+			if (options.lowercasePath) {
+				parsed.pathname = parsed.pathname.toLowerCase();
+			}
+
+			if (parsed.pathname.length > 1) {
+				if (trailingSlash === 'remove' && parsed.pathname.endsWith('/')) {
+					parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/';
+				} else if (trailingSlash === 'add' && !parsed.pathname.endsWith('/')) {
+					// Paths ending in a file name (e.g. /report.pdf) keep their form
+					const lastSegment = parsed.pathname.substring(parsed.pathname.lastIndexOf('/') + 1);
+					if (!lastSegment.includes('.')) {
+						parsed.pathname = `${parsed.pathname}/`;
+					}
+				}
+			}
+
+			// The query is only re-serialized when it changes, to keep the original encoding otherwise
+			if (parsed.search && (removedParamMatchers.length > 0 || options.sortQueryParams)) {
+				const params = parsed.searchParams;
+				const removedKeys = Array.from(new Set(params.keys()))
+					.filter((key) => removedParamMatchers.some((matches) => matches(key)));
+
+				if (removedKeys.length > 0 || options.sortQueryParams) {
+					removedKeys.forEach((key) => params.delete(key));
+					if (options.sortQueryParams) {
+						params.sort();
+					}
+					parsed.search = params.toString();
+				}
+			}
+
+			return parsed.toString();
+		} catch {
+			// If URL parsing fails, return original
+			return url;
+		}
+	};
+}
+
+// Normalization without run specific rules
+export const normalizeUrl = createUrlNormalizer();
@@ -6,11 +6,81 @@ export interface IScrapeSettings {
 	proxy?: string;
 	textNotExpected: string[];
 	statusNotExpected: number[];
+	// JS function run by ScrapeNinja on the page HTML, its result is returned as "extractor"
+	extractor?: string;
+	// /scrape only
 	followRedirects?: boolean;
 	timeout?: number;
+	// /scrape-js only, see buildScrapeRequestBody in ScrapeNinjaClient.ts
 	timeoutJs?: number;
 	waitForSelector?: string;
+	dumpIframe?: string;
+	waitForSelectorIframe?: string;
+	extractorTargetIframe?: boolean;
 	blockImages?: boolean;
 	blockMedia?: boolean;
+	screenshot?: boolean;
+	catchAjaxHeadersUrlMask?: string;
 	postWaitTime?: number;
-} 
\ No newline at end of file
+	viewport?: Record<string, any>;
+}
+
+export type LinkSource = 'anchors' | 'pagination' | 'areas' | 'iframes' | 'dataHref' | 'onclick';
+
+export interface ILinkSelector {
+	// CSS selector of the elements holding links
+	selector: string;
+	// Attribute with the URL, e.g. href or src
+	attribute: string;
+}
+
+export type CrawlerFailurePolicy = 'count' | 'percentage' | 'consecutive' | 'never';
+
+// Crawler behaviour options, stored in crawler_runs.options so that resumed runs behave the same way
+export interface ICrawlerOptions {
+	respectRobotsTxt?: boolean;
+	robotsUserAgent?: string;
+	// JS function run on every crawled page, its result is stored in crawler_queue.extracted_json
+	customExtractor?: string;
+	// Store Readability primary content as Markdown in crawler_queue.content_markdown
+	extractPrimaryContent?: boolean;
+	// Per-host politeness, see IHostRateLimit in CrawlerQueue.ts
+	minDelayMs?: number;
+	maxRequestsPerMinute?: number;
+	jitterMs?: number;
+	// When the crawler gives up, only URLs which failed all their retries count as failures
+	failurePolicy?: CrawlerFailurePolicy;
+	// Failed URLs allowed before stopping for the 'count' and 'consecutive' policies
+	maxFailures?: number;
+	maxFailurePercentage?: number;
+	// Retries of a failed URL before it is marked as failed, with exponential backoff
+	maxRetries?: number;
+	retryBackoffMs?: number;
+	// URL canonicalization, see createUrlNormalizer in UrlNormalization.ts
+	removeQueryParams?: string[];
+	sortQueryParams?: boolean;
+	trailingSlash?: 'keep' | 'remove' | 'add';
+	lowercasePath?: boolean;
+	// Skip pages whose <link rel="canonical"> points to another URL of the run
+	dedupeByCanonical?: boolean;
+	// Advanced URL filters, see createUrlFilter in UrlFilter.ts
+	urlFilterMode?: 'glob' | 'advanced';
+	includeRegex?: string[];
+	excludeRegex?: string[];
+	// 0 means no limit
+	maxPathDepth?: number;
+	allowedQueryParams?: string[];
+	deniedQueryParams?: string[];
+	allowedExtensions?: string[];
+	allowedContentTypes?: string[];
+	// Where links are discovered, see LinkExtraction.ts. Defaults to a[href] only
+	linkSources?: LinkSource[];
+	customLinkSelectors?: ILinkSelector[];
+	// Broken link checker mode: external links are checked once without being crawled, see LinkChecker.ts
+	checkExternalLinks?: boolean;
+	// Seconds, passed to ScrapeNinja as timeout of a single check request
+	linkCheckTimeout?: number;
+	maxRedirects?: number;
+	// Called when a background run finishes, also after it was resumed in the background
+	callbackUrl?: string;
+}
@@ -0,0 +1,86 @@
+import { computeCrawlerStats } from '../nodes/ScrapeNinja/CrawlerStats';
+import type { IQueueItemStats } from '../nodes/ScrapeNinja/CrawlerStorage';
+
+function item(url: string, changes: Partial<IQueueItemStats> = {}): IQueueItemStats {
+	return {
+		url,
+		status: 'completed',
+		depth: 0,
+		response_status_code: 200,
+		error: null,
+		latency_ms: null,
+		response_bytes: null,
+		inlink_count: 0,
+		...changes,
+	};
+}
+
+describe('computeCrawlerStats', () => {
+	it('returns empty stats for a run without pages', () => {
+		expect(computeCrawlerStats([])).toEqual({
+			pages_by_depth: [],
+			pages_by_host: [],
+			pages_by_status_code: {},
+			latency_ms: { avg: null, p50: null, p95: null, max: null },
+			bytes_downloaded: 0,
+			avg_page_bytes: null,
+			top_errors: [],
+			most_linked_pages: [],
+		});
+	});
+
+	it('counts pages by depth, host and status code', () => {
+		const stats = computeCrawlerStats([
+			item('https://example.com/', { response_bytes: 1000, latency_ms: 100 }),
+			item('https://example.com/a', { depth: 1, response_bytes: 3000, latency_ms: 300 }),
+			item('https://example.com/b', { depth: 1, status: 'failed', response_status_code: 500 }),
+			item('https://cdn.example.com/c', { depth: 1, status: 'pending', response_status_code: null }),
+		]);
+
+		expect(stats.pages_by_depth).toEqual([
+			{ depth: 0, total: 1, completed: 1, failed: 0 },
+			{ depth: 1, total: 3, completed: 1, failed: 1 },
+		]);
+		expect(stats.pages_by_host).toEqual([
+			{ host: 'example.com', total: 3, completed: 2, failed: 1, bytes_downloaded: 4000, avg_latency_ms: 200 },
+			{ host: 'cdn.example.com', total: 1, completed: 0, failed: 0, bytes_downloaded: 0, avg_latency_ms: null },
+		]);
+		expect(stats.pages_by_status_code).toEqual({ 200: 2, 500: 1 });
+		expect(stats.bytes_downloaded).toBe(4000);
+		expect(stats.avg_page_bytes).toBe(2000);
+	});
+
+	it('computes nearest-rank latency percentiles', () => {
+		const latencies = Array.from({ length: 20 }, (_, index) => (index + 1) * 10);
+		const stats = computeCrawlerStats(latencies.map((latency, index) => item(`https://example.com/${index}`, { latency_ms: latency })));
+
+		expect(stats.latency_ms).toEqual({ avg: 105, p50: 100, p95: 190, max: 200 });
+	});
+
+	it('groups errors of failed pages by message, also when stored as JSON', () => {
+		const stats = computeCrawlerStats([
+			item('https://example.com/1', { status: 'failed', error: JSON.stringify({ message: 'Timeout', response: {} }) }),
+			item('https://example.com/2', { status: 'failed', error: 'Timeout' }),
+			item('https://example.com/3', { status: 'failed', error: 'Proxy error' }),
+			item('https://example.com/4', { status: 'canceled', error: 'Canceled by user' }),
+		]);
+
+		expect(stats.top_errors).toEqual([
+			{ error: 'Timeout', count: 2 },
+			{ error: 'Proxy error', count: 1 },
+		]);
+	});
+
+	it('lists the most linked pages', () => {
+		const stats = computeCrawlerStats([
+			item('https://example.com/', { inlink_count: 3 }),
+			item('https://example.com/a', { inlink_count: 0 }),
+			item('https://example.com/b', { inlink_count: 7, status: 'failed' }),
+		]);
+
+		expect(stats.most_linked_pages).toEqual([
+			{ url: 'https://example.com/b', status: 'failed', inlinks: 7 },
+			{ url: 'https://example.com/', status: 'completed', inlinks: 3 },
+		]);
+	});
+});
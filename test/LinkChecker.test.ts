@@ -0,0 +1,120 @@
+import { buildBrokenLinkReport, checkLink } from '../nodes/ScrapeNinja/LinkChecker';
+import type { IScrapeResult } from '../nodes/ScrapeNinja/ScrapeNinjaClient';
+
+function response(statusCode: number, headers: string[] = []): IScrapeResult {
+	return { info: { statusCode, headers }, body: '' } as unknown as IScrapeResult;
+}
+
+// Serves the responses of a fake site and records the requested URLs
+function createSite(pages: Record<string, IScrapeResult>) {
+	const requested: string[] = [];
+	const fetchPage = async (url: string) => {
+		requested.push(url);
+		if (!pages[url]) throw new Error(`Unexpected request to ${url}`);
+		return pages[url];
+	};
+	return { fetchPage, requested };
+}
+
+describe('checkLink', () => {
+	it('reports a working link without redirects', async () => {
+		const { fetchPage } = createSite({ 'https://example.com/': response(200) });
+
+		expect(await checkLink(fetchPage, 'https://example.com/')).toMatchObject({
+			url: 'https://example.com/',
+			status_code: 200,
+			final_url: 'https://example.com/',
+			redirect_chain: [],
+			problem: null,
+			error: null,
+		});
+	});
+
+	it('follows redirects hop by hop, resolving relative locations', async () => {
+		const { fetchPage } = createSite({
+			'https://example.com/old': response(301, ['Location: /new']),
+			'https://example.com/new': response(404),
+		});
+
+		expect(await checkLink(fetchPage, 'https://example.com/old')).toMatchObject({
+			status_code: 404,
+			final_url: 'https://example.com/new',
+			redirect_chain: ['https://example.com/old', 'https://example.com/new'],
+			problem: 'http_error',
+		});
+	});
+
+	it('detects redirect loops', async () => {
+		const { fetchPage } = createSite({
+			'https://example.com/a': response(302, ['location: https://example.com/b']),
+			'https://example.com/b': response(302, ['location: https://example.com/a']),
+		});
+
+		const result = await checkLink(fetchPage, 'https://example.com/a');
+
+		expect(result.problem).toBe('redirect_loop');
+		expect(result.redirect_chain).toEqual(['https://example.com/a', 'https://example.com/b', 'https://example.com/a']);
+	});
+
+	it('stops after the maximum number of redirects', async () => {
+		const { fetchPage, requested } = createSite({
+			'https://example.com/1': response(301, ['Location: /2']),
+			'https://example.com/2': response(301, ['Location: /3']),
+			'https://example.com/3': response(301, ['Location: /4']),
+		});
+
+		const result = await checkLink(fetchPage, 'https://example.com/1', 2);
+
+		expect(result.problem).toBe('too_many_redirects');
+		expect(result.error).toBe('More than 2 redirects');
+		expect(requested).toHaveLength(3);
+	});
+
+	it('returns request failures as a problem instead of throwing', async () => {
+		const timeout = Object.assign(new Error('socket hang up'), { code: 'ETIMEDOUT' });
+
+		expect(await checkLink(async () => { throw timeout; }, 'https://example.com/')).toMatchObject({
+			status_code: null,
+			problem: 'timeout',
+			error: 'socket hang up',
+		});
+		expect((await checkLink(async () => { throw new Error('ENOTFOUND'); }, 'https://example.com/')).problem)
+			.toBe('request_error');
+	});
+});
+
+describe('buildBrokenLinkReport', () => {
+	it('groups internal and external broken links by the page they were found on', () => {
+		const report = buildBrokenLinkReport(
+			[
+				{ from_url: 'https://example.com/', to_url: 'https://example.com/gone', anchor_text: 'Gone', nofollow: false, status: 'failed', response_status_code: 404, error: null },
+				{ from_url: 'https://example.com/', to_url: 'https://example.com/slow', anchor_text: null, nofollow: false, status: 'failed', response_status_code: null, error: 'Request timed out' },
+				{ from_url: 'https://example.com/docs', to_url: 'https://example.com/loop', anchor_text: null, nofollow: true, status: 'failed', response_status_code: null, error: 'Too many redirects' },
+			],
+			[
+				{
+					from_url: 'https://example.com/',
+					to_url: 'https://other.com/',
+					anchor_text: 'Other',
+					nofollow: false,
+					status_code: 500,
+					final_url: 'https://other.com/',
+					redirect_chain: [],
+					problem: 'http_error',
+					error: null,
+				},
+			],
+		);
+
+		expect(report.map((page) => [page.page_url, page.broken_links_count])).toEqual([
+			['https://example.com/', 3],
+			['https://example.com/docs', 1],
+		]);
+		expect(report[0].broken_links.map((link) => [link.url, link.problem, link.external])).toEqual([
+			['https://example.com/gone', 'http_error', false],
+			['https://example.com/slow', 'timeout', false],
+			['https://other.com/', 'http_error', true],
+		]);
+		expect(report[1].broken_links[0].problem).toBe('too_many_redirects');
+	});
+});
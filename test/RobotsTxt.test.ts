@@ -0,0 +1,85 @@
+import { isAllowedByRobots, parseRobotsTxt } from '../nodes/ScrapeNinja/RobotsTxt';
+
+const ROBOTS_TXT = `
+# Comments and unknown lines are ignored
+User-agent: *
+Disallow: /admin
+Allow: /admin/public
+Disallow: /*.pdf$
+Crawl-delay: 2
+
+User-agent: ScrapeNinjaBot
+User-agent: OtherBot
+Disallow: /private
+Crawl-delay: 5
+
+Sitemap: https://example.com/sitemap.xml
+`;
+
+describe('parseRobotsTxt', () => {
+	it('uses the "*" group when no user-agent matches', () => {
+		const robots = parseRobotsTxt(ROBOTS_TXT, 'SomeBot');
+
+		expect(robots.rules).toEqual([
+			{ allow: false, pattern: '/admin' },
+			{ allow: true, pattern: '/admin/public' },
+			{ allow: false, pattern: '/*.pdf$' },
+		]);
+		expect(robots.crawlDelay).toBe(2);
+	});
+
+	it('prefers the most specific user-agent group, matched case-insensitively', () => {
+		const robots = parseRobotsTxt(ROBOTS_TXT, 'Mozilla/5.0 (compatible; scrapeninjabot/1.0)');
+
+		expect(robots.rules).toEqual([{ allow: false, pattern: '/private' }]);
+		expect(robots.crawlDelay).toBe(5);
+	});
+
+	it('shares rules between consecutive user-agent lines', () => {
+		expect(parseRobotsTxt(ROBOTS_TXT, 'OtherBot').rules).toEqual([{ allow: false, pattern: '/private' }]);
+	});
+
+	it('collects sitemaps regardless of the user-agent group', () => {
+		expect(parseRobotsTxt(ROBOTS_TXT, 'SomeBot').sitemaps).toEqual(['https://example.com/sitemap.xml']);
+	});
+
+	it('ignores an empty Disallow', () => {
+		expect(parseRobotsTxt('User-agent: *\nDisallow:', '*').rules).toEqual([]);
+	});
+});
+
+describe('isAllowedByRobots', () => {
+	const robots = parseRobotsTxt(ROBOTS_TXT, '*');
+
+	it('allows URLs without a matching rule', () => {
+		expect(isAllowedByRobots(robots, 'https://example.com/docs')).toEqual({ allowed: true });
+	});
+
+	it('applies the longest matching rule', () => {
+		expect(isAllowedByRobots(robots, 'https://example.com/admin/users')).toEqual({
+			allowed: false,
+			rule: 'Disallow: /admin',
+		});
+		expect(isAllowedByRobots(robots, 'https://example.com/admin/public/page')).toEqual({
+			allowed: true,
+			rule: 'Allow: /admin/public',
+		});
+	});
+
+	it('prefers Allow over Disallow of the same length', () => {
+		const tie = parseRobotsTxt('User-agent: *\nDisallow: /page\nAllow: /page', '*');
+		expect(isAllowedByRobots(tie, 'https://example.com/page').allowed).toBe(true);
+	});
+
+	it('supports wildcards and the end anchor', () => {
+		expect(isAllowedByRobots(robots, 'https://example.com/files/report.pdf').allowed).toBe(false);
+		expect(isAllowedByRobots(robots, 'https://example.com/files/report.pdf?download=1').allowed).toBe(true);
+	});
+
+	it('always allows robots.txt itself and unparsable URLs', () => {
+		const disallowAll = parseRobotsTxt('User-agent: *\nDisallow: /', '*');
+		expect(isAllowedByRobots(disallowAll, 'https://example.com/robots.txt').allowed).toBe(true);
+		expect(isAllowedByRobots(disallowAll, 'not a url').allowed).toBe(true);
+		expect(isAllowedByRobots(disallowAll, 'https://example.com/').allowed).toBe(false);
+	});
+});
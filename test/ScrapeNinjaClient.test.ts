@@ -0,0 +1,28 @@
+import { parseStatusCodeMatcher } from '../nodes/ScrapeNinja/ScrapeNinjaClient';
+
+describe('parseStatusCodeMatcher', () => {
+	it('matches every status code outside of 2xx for an empty list', () => {
+		const isError = parseStatusCodeMatcher(' ');
+
+		expect(isError(200)).toBe(false);
+		expect(isError(299)).toBe(false);
+		expect(isError(301)).toBe(true);
+		expect(isError(404)).toBe(true);
+		expect(isError(199)).toBe(true);
+	});
+
+	it('matches listed status codes and ranges', () => {
+		const isError = parseStatusCodeMatcher('403, 404 500-599');
+
+		expect(isError(403)).toBe(true);
+		expect(isError(404)).toBe(true);
+		expect(isError(500)).toBe(true);
+		expect(isError(599)).toBe(true);
+		expect(isError(401)).toBe(false);
+		expect(isError(600)).toBe(false);
+	});
+
+	it('throws on entries which are not a status code or range', () => {
+		expect(() => parseStatusCodeMatcher('404, 5xx')).toThrow('"5xx" is not a status code or range');
+	});
+});
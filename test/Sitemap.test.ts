@@ -0,0 +1,45 @@
+import { parseSitemap } from '../nodes/ScrapeNinja/Sitemap';
+
+describe('parseSitemap', () => {
+	it('parses page entries with their lastmod', () => {
+		const xml = `<?xml version="1.0" encoding="UTF-8"?>
+			<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+				<url>
+					<loc> https://example.com/ </loc>
+					<lastmod>2024-01-15</lastmod>
+				</url>
+				<url>
+					<loc>https://example.com/docs?a=1&amp;b=2</loc>
+					<lastmod>not a date</lastmod>
+				</url>
+				<url>
+					<lastmod>2024-01-15</lastmod>
+				</url>
+			</urlset>`;
+
+		expect(parseSitemap(xml)).toEqual({
+			entries: [
+				{ url: 'https://example.com/', lastmod: '2024-01-15T00:00:00.000Z' },
+				{ url: 'https://example.com/docs?a=1&b=2', lastmod: null },
+			],
+			sitemaps: [],
+		});
+	});
+
+	it('returns the nested sitemaps of a sitemap index', () => {
+		const xml = `<?xml version="1.0" encoding="UTF-8"?>
+			<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+				<sitemap><loc>https://example.com/sitemap-pages.xml</loc></sitemap>
+				<sitemap><loc>https://example.com/sitemap-posts.xml.gz</loc></sitemap>
+			</sitemapindex>`;
+
+		expect(parseSitemap(xml)).toEqual({
+			entries: [],
+			sitemaps: ['https://example.com/sitemap-pages.xml', 'https://example.com/sitemap-posts.xml.gz'],
+		});
+	});
+
+	it('returns nothing for content which is not a sitemap', () => {
+		expect(parseSitemap('<html><body>Not found</body></html>')).toEqual({ entries: [], sitemaps: [] });
+	});
+});
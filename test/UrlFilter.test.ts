@@ -0,0 +1,106 @@
+import { createUrlFilter, getContentTypeRejection, parseRegex } from '../nodes/ScrapeNinja/UrlFilter';
+
+describe('parseRegex', () => {
+	it('parses plain sources and slash-wrapped patterns with flags', () => {
+		expect(parseRegex('^https://example\\.com/docs/').test('https://example.com/docs/a')).toBe(true);
+		expect(parseRegex('/\\/DOCS\\//i').test('https://example.com/docs/a')).toBe(true);
+	});
+
+	it('drops the stateful g and y flags', () => {
+		expect(parseRegex('/docs/gy').flags).toBe('');
+	});
+});
+
+describe('createUrlFilter', () => {
+	it('accepts every URL without patterns', () => {
+		expect(createUrlFilter([], [])('https://example.com/anything')).toBeNull();
+	});
+
+	it('matches glob patterns against the URL without protocol', () => {
+		const filter = createUrlFilter(['https://example.com/docs/**'], ['example.com/docs/private/**']);
+
+		expect(filter('https://example.com/docs/intro')).toBeNull();
+		expect(filter('https://example.com/blog/post')).toEqual({
+			reason: 'include_pattern',
+			detail: 'Matches none of the include patterns',
+		});
+		expect(filter('https://example.com/docs/private/keys')).toEqual({
+			reason: 'exclude_pattern',
+			detail: 'Matches exclude pattern "example.com/docs/private/**"',
+		});
+	});
+
+	it('ignores the advanced rules in glob mode', () => {
+		const filter = createUrlFilter([], [], { maxPathDepth: 1, excludeRegex: ['docs'] });
+		expect(filter('https://example.com/docs/a/b')).toBeNull();
+	});
+
+	describe('advanced mode', () => {
+		it('applies include and exclude regexes', () => {
+			const filter = createUrlFilter([], [], {
+				urlFilterMode: 'advanced',
+				includeRegex: ['/docs/'],
+				excludeRegex: ['/\\.pdf$/i'],
+			});
+
+			expect(filter('https://example.com/docs/intro')).toBeNull();
+			expect(filter('https://example.com/blog')?.reason).toBe('include_regex');
+			expect(filter('https://example.com/docs/guide.PDF')?.reason).toBe('exclude_regex');
+		});
+
+		it('limits the path depth', () => {
+			const filter = createUrlFilter([], [], { urlFilterMode: 'advanced', maxPathDepth: 2 });
+
+			expect(filter('https://example.com/a/b')).toBeNull();
+			expect(filter('https://example.com/a/b/c')).toEqual({ reason: 'path_depth', detail: 'Path depth 3 exceeds 2' });
+		});
+
+		it('applies denied and allowed query parameter rules', () => {
+			const filter = createUrlFilter([], [], {
+				urlFilterMode: 'advanced',
+				allowedQueryParams: ['page<=3', 'sort=asc'],
+				deniedQueryParams: ['session*'],
+			});
+
+			expect(filter('https://example.com/list?page=2&sort=asc')).toBeNull();
+			expect(filter('https://example.com/list?page=4')?.detail)
+				.toBe('Query parameter "page=4" matches none of the allowed rules');
+			expect(filter('https://example.com/list?page=x')?.reason).toBe('query_param');
+			expect(filter('https://example.com/list?sessionId=1')?.detail)
+				.toBe('Query parameter "sessionId=1" matches denied rule "session*"');
+		});
+
+		it('allows listed file extensions and URLs without one', () => {
+			const filter = createUrlFilter([], [], { urlFilterMode: 'advanced', allowedExtensions: ['.html', 'PHP'] });
+
+			expect(filter('https://example.com/docs/intro')).toBeNull();
+			expect(filter('https://example.com/index.php')).toBeNull();
+			expect(filter('https://example.com/file.zip')).toEqual({
+				reason: 'extension',
+				detail: 'File extension "zip" is not allowed',
+			});
+		});
+
+		it('throws on an invalid regex', () => {
+			expect(() => createUrlFilter([], [], { urlFilterMode: 'advanced', includeRegex: ['('] })).toThrow();
+		});
+	});
+});
+
+describe('getContentTypeRejection', () => {
+	const headers = ['Content-Type: application/pdf; charset=binary'];
+
+	it('accepts everything without allowed content types or a Content-Type header', () => {
+		expect(getContentTypeRejection(headers)).toBeNull();
+		expect(getContentTypeRejection(['Server: nginx'], ['text/html'])).toBeNull();
+	});
+
+	it('matches exact types and whole type families', () => {
+		expect(getContentTypeRejection(['content-type: text/plain'], ['text/*'])).toBeNull();
+		expect(getContentTypeRejection(headers, ['text/html', 'application/pdf'])).toBeNull();
+		expect(getContentTypeRejection(headers, ['text/*'])).toEqual({
+			reason: 'content_type',
+			detail: 'Content type "application/pdf" is not allowed',
+		});
+	});
+});
@@ -0,0 +1,53 @@
+import { createUrlNormalizer, DEFAULT_REMOVED_QUERY_PARAMS, normalizeUrl } from '../nodes/ScrapeNinja/UrlNormalization';
+
+describe('normalizeUrl', () => {
+	it('removes the fragment, the root slash and default ports and lowercases the host', () => {
+		expect(normalizeUrl('https://Example.COM:443/#top')).toBe('https://example.com/');
+		expect(normalizeUrl('http://example.com:80/Docs/Page#section')).toBe('http://example.com/Docs/Page');
+	});
+
+	it('keeps non-default ports, the path case and the query', () => {
+		expect(normalizeUrl('https://example.com:8443/A/b/?z=1&a=2')).toBe('https://example.com:8443/A/b/?z=1&a=2');
+	});
+
+	it('returns unparsable URLs unchanged', () => {
+		expect(normalizeUrl('not a url')).toBe('not a url');
+	});
+});
+
+describe('createUrlNormalizer', () => {
+	it('removes query parameters matching globs and regexes', () => {
+		const normalize = createUrlNormalizer({ removeQueryParams: [...DEFAULT_REMOVED_QUERY_PARAMS, '/^sess/i'] });
+
+		expect(normalize('https://example.com/page?UTM_Source=x&id=1&fbclid=y&SESSIONID=z'))
+			.toBe('https://example.com/page?id=1');
+	});
+
+	it('keeps the original query encoding when nothing is removed', () => {
+		const normalize = createUrlNormalizer({ removeQueryParams: ['utm_*'] });
+		expect(normalize('https://example.com/search?q=a%20b')).toBe('https://example.com/search?q=a%20b');
+	});
+
+	it('sorts query parameters', () => {
+		const normalize = createUrlNormalizer({ sortQueryParams: true });
+		expect(normalize('https://example.com/?b=2&a=1')).toBe('https://example.com/?a=1&b=2');
+	});
+
+	it('removes or adds trailing slashes, except for file names', () => {
+		const remove = createUrlNormalizer({ trailingSlash: 'remove' });
+		const add = createUrlNormalizer({ trailingSlash: 'add' });
+
+		expect(remove('https://example.com/docs//')).toBe('https://example.com/docs');
+		expect(add('https://example.com/docs')).toBe('https://example.com/docs/');
+		expect(add('https://example.com/report.pdf')).toBe('https://example.com/report.pdf');
+	});
+
+	it('lowercases the path', () => {
+		expect(createUrlNormalizer({ lowercasePath: true })('https://example.com/Docs/Intro'))
+			.toBe('https://example.com/docs/intro');
+	});
+
+	it('throws on an invalid regex pattern', () => {
+		expect(() => createUrlNormalizer({ removeQueryParams: ['/(/'] })).toThrow();
+	});
+});